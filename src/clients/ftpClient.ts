@@ -1,9 +1,12 @@
 import * as ftp from 'basic-ftp';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as tls from 'tls';
 import { FtpSyncConfig } from '../types';
-import { Logger, normalizePath, getParentDir } from '../utils';
-import { RemoteClient, TransferResult, RemoteFileInfo } from './remoteClient';
+import { Logger, normalizePath, getParentDir, expandHomeDir } from '../utils';
+import {
+    RemoteClient, TransferResult, RemoteFileInfo, AuthPrompts, AuthenticationError, HostKeyError, MAX_AUTH_ATTEMPTS, PARTIAL_SUFFIX
+} from './remoteClient';
 
 /**
  * FTP Client implementation using basic-ftp
@@ -11,29 +14,53 @@ import { RemoteClient, TransferResult, RemoteFileInfo } from './remoteClient';
 export class FtpClient extends RemoteClient {
     private client: ftp.Client;
 
-    constructor(config: FtpSyncConfig) {
-        super(config);
+    constructor(config: FtpSyncConfig, prompts?: AuthPrompts) {
+        super(config, prompts);
         this.client = new ftp.Client(this.config.timeout);
         
         if (this.config.debug) {
             this.client.ftp.verbose = true;
         }
+        // Reported every half second during transfers, count only those that moved data
+        let transferred = -1;
+        this.client.trackProgress(info => {
+            if (info.bytesOverall !== transferred) {
+                transferred = info.bytesOverall;
+                this.reportProgress();
+            }
+        });
     }
 
     async connect(): Promise<void> {
         try {
             Logger.info(`Connecting to FTP server ${this.config.host}:${this.config.port}...`);
-            
-            await this.client.access({
-                host: this.config.host,
-                port: this.config.port,
-                user: this.config.username,
-                password: this.config.password,
-                secure: this.config.secure,
-                secureOptions: this.config.secureOptions
-            });
+
+            // Anonymous logins don't need a password
+            let password = this.config.password;
+            if (!password && this.config.username !== 'anonymous') {
+                password = await this.requestCredential('password', false);
+            }
+
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    await this.access(password);
+                    break;
+                } catch (error) {
+                    if (!this.isLoginRejected(error as Error)) {
+                        throw error;
+                    }
+                    if (!this.prompts.credential || attempt >= MAX_AUTH_ATTEMPTS) {
+                        throw new AuthenticationError(
+                            `Login rejected for ${this.config.username}@${this.config.host}: ${(error as Error).message}`
+                        );
+                    }
+                    Logger.warn(`Login rejected for ${this.config.username}@${this.config.host} (attempt ${attempt}/${MAX_AUTH_ATTEMPTS})`);
+                    password = await this.requestCredential('password', true);
+                }
+            }
             
             this.connected = true;
+            this.permittedDirectories.clear();
             Logger.success(`Connected to FTP server ${this.config.host}`);
         } catch (error) {
             this.connected = false;
@@ -42,6 +69,165 @@ export class FtpClient extends RemoteClient {
         }
     }
 
+    /**
+     * Connect, secure the connection and log in
+     * Same steps as basic-ftp's access(), with the pinned certificate checked
+     * before the password is sent
+     */
+    private async access(password: string | undefined): Promise<void> {
+        const { host, port } = this.config;
+        const mode = this.config.secure ? this.config.secureOptions?.mode || 'explicit' : undefined;
+        const tlsOptions = mode ? this.getTlsOptions() : undefined;
+        const pinned = this.config.secureOptions?.fingerprint;
+
+        if (mode && pinned) {
+            this.pinDataConnections(pinned);
+        }
+
+        if (mode === 'implicit') {
+            await this.client.connectImplicitTLS(host, port, tlsOptions);
+        } else {
+            await this.client.connect(host, port);
+            if (mode === 'explicit') {
+                // Data connections need the host for SNI and certificate checks as well
+                await this.client.useTLS({ ...tlsOptions, host });
+            }
+        }
+
+        if (mode) {
+            this.verifyCertificate();
+        }
+
+        // UTF-8 before login in case user or password contain non-ASCII characters
+        await this.client.sendIgnoringError('OPTS UTF8 ON');
+        await this.client.login(this.config.username, password);
+        await this.client.useDefaultSettings();
+    }
+
+    /**
+     * Build the TLS options from secureOptions
+     * A pinned fingerprint replaces the CA check, so self-signed certificates work
+     */
+    private getTlsOptions(): tls.ConnectionOptions {
+        const { rejectUnauthorized, caPath, fingerprint, certPath, keyPath } = this.config.secureOptions || {};
+        const readFile = (filePath: string, label: string): Buffer => {
+            try {
+                return fs.readFileSync(expandHomeDir(filePath));
+            } catch (error) {
+                throw new Error(`Cannot read ${label} ${filePath}: ${(error as Error).message}`);
+            }
+        };
+
+        const options: tls.ConnectionOptions = {
+            rejectUnauthorized: fingerprint ? false : rejectUnauthorized ?? true
+        };
+        if (caPath) {
+            options.ca = readFile(caPath, 'CA bundle');
+        }
+        if (certPath) {
+            options.cert = readFile(certPath, 'client certificate');
+            options.key = readFile(keyPath || certPath, 'client key');
+        }
+
+        return options;
+    }
+
+    /**
+     * Compare the server certificate with the pinned fingerprint
+     */
+    private verifyCertificate(): void {
+        const socket = this.client.ftp.socket as tls.TLSSocket;
+        const pinned = this.config.secureOptions?.fingerprint;
+
+        if (!pinned) {
+            if (socket.getPeerCertificate?.() && !socket.authorized && socket.authorizationError) {
+                Logger.warn(`Accepting unverified certificate of ${this.config.host}: ${socket.authorizationError}`);
+            }
+            return;
+        }
+
+        const error = this.checkFingerprint(socket, pinned);
+        if (error) {
+            this.client.close();
+            throw error;
+        }
+        Logger.debug(`Certificate of ${this.config.host} matches the pinned fingerprint`);
+    }
+
+    /**
+     * Check the pinned fingerprint on every data connection as well
+     * Data connections skip the CA check like the control connection, so each one is
+     * closed before any data is sent or read unless it shows the pinned certificate
+     * @throws HostKeyError if basic-ftp no longer lets data connections be checked
+     */
+    private pinDataConnections(pinned: string): void {
+        const context = this.client.ftp;
+        // Already pinned by an earlier connect()
+        if (Object.prototype.hasOwnProperty.call(context, 'dataSocket')) {
+            return;
+        }
+
+        const accessor = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(context), 'dataSocket');
+        if (!accessor?.get || !accessor.set) {
+            // Data connections would go unchecked, so don't connect at all
+            throw new HostKeyError(
+                `Cannot check the pinned certificate of ${this.config.host} on data connections with this basic-ftp version`
+            );
+        }
+
+        Object.defineProperty(context, 'dataSocket', {
+            configurable: true,
+            get: () => accessor.get!.call(context),
+            set: (socket: ftp.FTPContext['dataSocket']) => {
+                if (socket instanceof tls.TLSSocket) {
+                    const verify = () => {
+                        const error = this.checkFingerprint(socket, pinned);
+                        if (error) {
+                            Logger.error(error.message);
+                            socket.destroy(error);
+                        }
+                    };
+                    // No data is sent or read before the handshake, so this runs before the transfer
+                    if (socket.getCipher()) {
+                        verify();
+                    } else {
+                        socket.once('secureConnect', verify);
+                    }
+                }
+                accessor.set!.call(context, socket);
+            }
+        });
+    }
+
+    /**
+     * Compare the certificate of a TLS socket with the pinned fingerprint
+     * @returns The error to fail with, or undefined if it matches
+     */
+    private checkFingerprint(socket: tls.TLSSocket, pinned: string): HostKeyError | undefined {
+        // Accept "AB:CD:..." as printed by openssl as well as plain hex
+        const normalize = (value: string) => value.replace(/^sha256:/i, '').replace(/[^0-9a-f]/gi, '').toUpperCase();
+        const actual = socket.getPeerCertificate?.()?.fingerprint256;
+        if (actual && normalize(actual) === normalize(pinned)) {
+            return undefined;
+        }
+        return new HostKeyError(
+            `Certificate of ${this.config.host} doesn't match the pinned fingerprint. ` +
+            `Expected ${pinned}, got ${actual || 'no certificate'}`
+        );
+    }
+
+    /**
+     * Check if the server refused the login (wrong user or password)
+     * 530 is also used for "maximum connections reached", which is not a login problem
+     */
+    private isLoginRejected(error: Error): boolean {
+        const code = (error as ftp.FTPError).code;
+        const message = error.message.toLowerCase();
+        return (code === 530 || code === 430)
+            && !message.includes('maximum')
+            && !message.includes('too many');
+    }
+
     async disconnect(): Promise<void> {
         try {
             this.client.close();
@@ -76,8 +262,14 @@ export class FtpClient extends RemoteClient {
             // Ensure remote directory exists
             await this.ensureDirectory(getParentDir(normalizedRemotePath));
             
-            Logger.debug(`Uploading ${localPath} to ${normalizedRemotePath}`);
-            await this.client.uploadFrom(localPath, normalizedRemotePath);
+            const stat = fs.statSync(localPath);
+            if (this.isResumable(stat.size)) {
+                await this.uploadResumable(localPath, normalizedRemotePath, stat);
+            } else {
+                Logger.debug(`Uploading ${localPath} to ${normalizedRemotePath}`);
+                await this.client.uploadFrom(localPath, normalizedRemotePath);
+            }
+            await this.applyFilePermissions(normalizedRemotePath);
             
             Logger.success(`Uploaded: ${path.basename(localPath)}`);
             return {
@@ -106,8 +298,16 @@ export class FtpClient extends RemoteClient {
                 fs.mkdirSync(localDir, { recursive: true });
             }
             
-            Logger.debug(`Downloading ${normalizedRemotePath} to ${localPath}`);
-            await this.client.downloadTo(localPath, normalizedRemotePath);
+            // Servers without SIZE just download in one go
+            const size = this.config.resumeThreshold > 0
+                ? await this.client.size(normalizedRemotePath).catch(() => 0)
+                : 0;
+            if (this.isResumable(size)) {
+                await this.downloadResumable(normalizedRemotePath, localPath, size);
+            } else {
+                Logger.debug(`Downloading ${normalizedRemotePath} to ${localPath}`);
+                await this.client.downloadTo(localPath, normalizedRemotePath);
+            }
             
             Logger.success(`Downloaded: ${path.basename(remotePath)}`);
             return {
@@ -126,6 +326,59 @@ export class FtpClient extends RemoteClient {
         }
     }
 
+    /**
+     * Upload a large file to a partial file next to the target, then move it into place
+     * After a failed attempt the rest is appended to the partial file (APPE)
+     */
+    private async uploadResumable(localPath: string, remotePath: string, stat: fs.Stats): Promise<void> {
+        const partPath = remotePath + PARTIAL_SUFFIX;
+
+        await this.transferResumable(
+            partPath,
+            `${stat.size}:${stat.mtimeMs}`,
+            stat.size,
+            () => this.client.size(partPath),
+            async (offset) => {
+                if (offset > 0) {
+                    Logger.debug(`Appending ${localPath} to ${partPath} from byte ${offset}`);
+                    await this.client.appendFrom(localPath, partPath, { localStart: offset });
+                } else {
+                    Logger.debug(`Uploading ${localPath} to ${partPath}`);
+                    await this.client.uploadFrom(localPath, partPath);
+                }
+
+                // Not every server overwrites an existing file on rename
+                try {
+                    await this.client.rename(partPath, remotePath);
+                } catch {
+                    await this.client.remove(remotePath, true);
+                    await this.client.rename(partPath, remotePath);
+                }
+            }
+        );
+    }
+
+    /**
+     * Download a large file to a partial file next to the target, then move it into place
+     * After a failed attempt the download continues at the partial file's size (REST)
+     */
+    private async downloadResumable(remotePath: string, localPath: string, size: number): Promise<void> {
+        const partPath = localPath + PARTIAL_SUFFIX;
+        const lastMod = await this.client.lastMod(remotePath).catch(() => undefined);
+
+        await this.transferResumable(
+            partPath,
+            `${size}:${lastMod?.getTime() ?? ''}`,
+            size,
+            async () => fs.statSync(partPath).size,
+            async (offset) => {
+                Logger.debug(`Downloading ${remotePath} to ${partPath}${offset > 0 ? ` from byte ${offset}` : ''}`);
+                await this.client.downloadTo(partPath, remotePath, offset);
+                fs.renameSync(partPath, localPath);
+            }
+        );
+    }
+
     async deleteFile(remotePath: string): Promise<void> {
         const normalizedRemotePath = normalizePath(remotePath);
         
@@ -139,6 +392,33 @@ export class FtpClient extends RemoteClient {
         }
     }
 
+    async rename(fromPath: string, toPath: string): Promise<void> {
+        const normalizedFromPath = normalizePath(fromPath);
+        const normalizedToPath = normalizePath(toPath);
+
+        try {
+            Logger.debug(`Renaming remote ${normalizedFromPath} to ${normalizedToPath}`);
+            await this.client.rename(normalizedFromPath, normalizedToPath);
+            Logger.success(`Renamed: ${path.basename(fromPath)} → ${path.basename(toPath)}`);
+        } catch (error) {
+            Logger.error(`Failed to rename ${fromPath}: ${(error as Error).message}`);
+            throw error;
+        }
+    }
+
+    async chmod(remotePath: string, mode: number): Promise<void> {
+        const normalizedRemotePath = normalizePath(remotePath);
+
+        try {
+            // Not part of the FTP standard, but supported by most Unix servers
+            await this.client.send(`SITE CHMOD ${mode.toString(8).padStart(3, '0')} ${normalizedRemotePath}`);
+            Logger.debug(`Changed permissions of ${normalizedRemotePath} to ${mode.toString(8)}`);
+        } catch (error) {
+            Logger.error(`Failed to change permissions of ${remotePath}: ${(error as Error).message}`);
+            throw error;
+        }
+    }
+
     async deleteDirectory(remotePath: string): Promise<void> {
         const normalizedRemotePath = normalizePath(remotePath);
         
@@ -172,6 +452,7 @@ export class FtpClient extends RemoteClient {
         
         try {
             await this.client.ensureDir(normalizedRemotePath);
+            await this.applyDirectoryPermissions(normalizedRemotePath);
         } catch (error) {
             Logger.error(`Failed to ensure directory ${remotePath}: ${(error as Error).message}`);
             throw error;
@@ -188,7 +469,8 @@ export class FtpClient extends RemoteClient {
                 path: normalizePath(path.join(normalizedRemotePath, item.name)),
                 type: item.isDirectory ? 'directory' as const : item.isSymbolicLink ? 'link' as const : 'file' as const,
                 size: item.size,
-                modifiedTime: item.modifiedAt || new Date()
+                modifiedTime: item.modifiedAt,
+                ...FtpClient.getOwnership(item)
             }));
         } catch (error) {
             Logger.error(`Failed to list directory ${remotePath}: ${(error as Error).message}`);
@@ -215,11 +497,15 @@ export class FtpClient extends RemoteClient {
     async isDirectory(remotePath: string): Promise<boolean> {
         const normalizedRemotePath = normalizePath(remotePath);
         
+        // LIST of a plain file succeeds on many servers, CWD only works for folders
+        const workingDir = await this.client.pwd();
         try {
-            await this.client.list(normalizedRemotePath);
+            await this.client.cd(normalizedRemotePath);
             return true;
         } catch {
             return false;
+        } finally {
+            await this.client.cd(workingDir).catch(() => undefined);
         }
     }
 
@@ -236,15 +522,36 @@ export class FtpClient extends RemoteClient {
                 return null;
             }
             
+            // LIST output has no exact time; servers without MLSD still answer MDTM for files
+            let modifiedTime = file.modifiedAt;
+            if (!modifiedTime && file.isFile) {
+                modifiedTime = await this.client.lastMod(normalizedRemotePath).catch(() => undefined);
+            }
+
             return {
                 name: file.name,
                 path: normalizedRemotePath,
                 type: file.isDirectory ? 'directory' : file.isSymbolicLink ? 'link' : 'file',
                 size: file.size,
-                modifiedTime: file.modifiedAt || new Date()
+                modifiedTime,
+                ...FtpClient.getOwnership(file)
             };
         } catch {
             return null;
         }
     }
+
+    /**
+     * Get permissions, owner and group from a parsed LIST or MLSD entry
+     */
+    private static getOwnership(item: ftp.FileInfo): Pick<RemoteFileInfo, 'permissions' | 'owner' | 'group'> {
+        const permissions = item.permissions
+            ? (item.permissions.user << 6) | (item.permissions.group << 3) | item.permissions.world
+            : undefined;
+        return {
+            permissions,
+            owner: item.user || undefined,
+            group: item.group || undefined
+        };
+    }
 }
@@ -1,21 +1,43 @@
 import { FtpSyncConfig } from '../types';
-import { RemoteClient } from './remoteClient';
+import { RemoteClient, AuthPrompts } from './remoteClient';
 import { FtpClient } from './ftpClient';
 import { SftpClientWrapper } from './sftpClient';
 
-export { RemoteClient, TransferResult, RemoteFileInfo } from './remoteClient';
+export {
+    RemoteClient,
+    TransferResult,
+    RemoteFileInfo,
+    CredentialRequest,
+    CredentialPrompt,
+    KeyboardInteractiveRequest,
+    KeyboardInteractivePrompt,
+    HostKeyRequest,
+    HostKeyPrompt,
+    AuthPrompts,
+    AuthenticationError,
+    HostKeyError,
+    MAX_AUTH_ATTEMPTS,
+    PARTIAL_SUFFIX
+} from './remoteClient';
 export { FtpClient } from './ftpClient';
 export { SftpClientWrapper } from './sftpClient';
+export { SshHostConfig, readSshConfig, applySshConfig, getSshConfigPath, matchesHostPattern } from './sshConfig';
+
+/**
+ * Creates a client for a configuration, createClient() unless a test replaces it
+ */
+export type ClientFactory = (config: FtpSyncConfig, prompts?: AuthPrompts) => RemoteClient;
 
 /**
  * Factory function to create the appropriate client based on protocol
+ * @param prompts Ask the user for missing or rejected credentials
  */
-export function createClient(config: FtpSyncConfig): RemoteClient {
+export function createClient(config: FtpSyncConfig, prompts?: AuthPrompts): RemoteClient {
     switch (config.protocol) {
         case 'ftp':
-            return new FtpClient(config);
+            return new FtpClient(config, prompts);
         case 'sftp':
-            return new SftpClientWrapper(config);
+            return new SftpClientWrapper(config, prompts);
         default:
             throw new Error(`Unsupported protocol: ${config.protocol}`);
     }
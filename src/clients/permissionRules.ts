@@ -0,0 +1,81 @@
+import ignore, { Ignore } from 'ignore';
+import { Logger } from '../utils';
+
+/**
+ * A single glob pattern with the mode it assigns
+ */
+interface PermissionRule {
+    pattern: string;
+    matcher: Ignore;
+    mode: number;
+    directory: boolean; // Pattern ends with "/" and only applies to directories
+}
+
+/**
+ * Maps glob patterns (gitignore syntax, relative to remotePath) to Unix modes
+ * The first matching pattern wins, so specific patterns go before general ones
+ * Patterns ending with "/" apply to directories, all others to files
+ */
+export class PermissionRules {
+    private rules: PermissionRule[] = [];
+
+    constructor(permissions: Record<string, string | number> = {}) {
+        for (const [pattern, value] of Object.entries(permissions)) {
+            const mode = PermissionRules.parseMode(value);
+            if (mode === undefined) {
+                Logger.warn(`Ignoring permission rule "${pattern}": "${value}" is not an octal mode like "644"`);
+                continue;
+            }
+            this.rules.push({
+                pattern,
+                matcher: ignore().add(pattern),
+                mode,
+                directory: pattern.endsWith('/')
+            });
+        }
+    }
+
+    /**
+     * Parse an octal mode like "644", "0755" or "0o750"
+     * Numbers are read as octal digits, so 644 means 0o644
+     */
+    public static parseMode(value: string | number): number | undefined {
+        const digits = String(value).trim().replace(/^0o/i, '');
+        if (!/^[0-7]{3,4}$/.test(digits)) {
+            return undefined;
+        }
+        return parseInt(digits, 8);
+    }
+
+    /**
+     * Check if any rules are configured
+     */
+    public isEmpty(): boolean {
+        return this.rules.length === 0;
+    }
+
+    /**
+     * Get the mode for a path, or undefined if no rule matches
+     * @param relativePath Path relative to remotePath
+     */
+    public getMode(relativePath: string, isDirectory: boolean): number | undefined {
+        if (!relativePath) {
+            return undefined;
+        }
+
+        const candidate = isDirectory ? `${relativePath}/` : relativePath;
+        for (const rule of this.rules) {
+            if (rule.directory !== isDirectory) {
+                continue;
+            }
+            try {
+                if (rule.matcher.ignores(candidate)) {
+                    return rule.mode;
+                }
+            } catch (error) {
+                Logger.debug(`Error matching permission rule "${rule.pattern}" against ${relativePath}: ${(error as Error).message}`);
+            }
+        }
+        return undefined;
+    }
+}
@@ -1,4 +1,7 @@
+import * as path from 'path';
 import { FtpSyncConfig } from '../types';
+import { Logger, normalizePath, formatFileSize } from '../utils';
+import { PermissionRules } from './permissionRules';
 
 /**
  * Result of a file transfer operation
@@ -10,6 +13,12 @@ export interface TransferResult {
     error?: Error;
 }
 
+/**
+ * Suffix of the file a large transfer is written to until it is complete
+ * Such files are never synced themselves
+ */
+export const PARTIAL_SUFFIX = '.ftpsync-part';
+
 /**
  * File info from remote server
  */
@@ -18,18 +27,283 @@ export interface RemoteFileInfo {
     path: string;
     type: 'file' | 'directory' | 'link';
     size: number;
-    modifiedTime: Date;
+    modifiedTime?: Date; // Unknown when the server does not report it (FTP without MLSD or MDTM)
+    permissions?: number; // Unix mode bits, e.g. 0o644; not every server reports them
+    owner?: string; // User name, or the numeric id if the server doesn't resolve it
+    group?: string;
+}
+
+/**
+ * A credential the client needs from the user while connecting
+ */
+export interface CredentialRequest {
+    field: 'password' | 'passphrase';
+    config: FtpSyncConfig;
+    retry: boolean; // The previous value was rejected
+}
+
+/**
+ * Asks the user for a missing or rejected credential
+ * Resolves to undefined if the user cancels
+ */
+export type CredentialPrompt = (request: CredentialRequest) => Promise<string | undefined>;
+
+/**
+ * Questions of a keyboard-interactive login, e.g. a one-time code for 2FA
+ */
+export interface KeyboardInteractiveRequest {
+    config: FtpSyncConfig;
+    name: string;
+    instructions: string;
+    prompts: Array<{ prompt: string; echo: boolean }>;
+}
+
+/**
+ * Asks the user to answer the server's keyboard-interactive prompts
+ * Resolves to one answer per prompt, or undefined if the user cancels
+ */
+export type KeyboardInteractivePrompt = (request: KeyboardInteractiveRequest) => Promise<string[] | undefined>;
+
+/**
+ * A server's host key to be checked before logging in
+ */
+export interface HostKeyRequest {
+    host: string;
+    port: number;
+    key: Buffer; // Raw public key in SSH wire format
+}
+
+/**
+ * Decides whether a host key is trusted, asking the user for unknown hosts
+ * Resolves to false if the user declines; rejects with HostKeyError if the key changed
+ */
+export type HostKeyPrompt = (request: HostKeyRequest) => Promise<boolean>;
+
+/**
+ * Callbacks a client uses to involve the user while connecting
+ */
+export interface AuthPrompts {
+    credential?: CredentialPrompt;
+    keyboardInteractive?: KeyboardInteractivePrompt;
+    hostKey?: HostKeyPrompt;
+}
+
+/**
+ * Thrown when the server rejects the credentials or the user cancels the prompt
+ * Retrying the same operation can't help, so callers should not back off and retry
+ */
+export class AuthenticationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthenticationError';
+    }
+}
+
+/**
+ * Thrown when the server's identity (SSH host key or pinned TLS certificate)
+ * doesn't match the known one or is not trusted
+ */
+export class HostKeyError extends AuthenticationError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HostKeyError';
+    }
 }
 
+/**
+ * How often a rejected credential is asked for again before giving up
+ */
+export const MAX_AUTH_ATTEMPTS = 3;
+
 /**
  * Abstract base class for remote clients (FTP/SFTP)
  */
 export abstract class RemoteClient {
+    // Partial files of unfinished transfers in this session, with the source they were started from
+    private static partialTransfers: Map<string, string> = new Map();
+    // Attempt currently writing each partial file, a retry waits for it
+    private static runningTransfers: Map<string, Promise<void>> = new Map();
+
     protected config: FtpSyncConfig;
     protected connected = false;
+    protected prompts: AuthPrompts;
+    protected permissionRules: PermissionRules;
+    protected permittedDirectories: Set<string> = new Set(); // Already set on this connection, uploads don't repeat it
+    private lastProgress = 0; // When the last transfer on this connection moved data
 
-    constructor(config: FtpSyncConfig) {
+    /**
+     * @param config Connection settings
+     * @param prompts Ask the user for missing or rejected credentials; without them, connecting just fails
+     */
+    constructor(config: FtpSyncConfig, prompts: AuthPrompts = {}) {
         this.config = config;
+        this.prompts = prompts;
+        this.permissionRules = new PermissionRules(config.permissions);
+    }
+
+    /**
+     * Note that a transfer moved data
+     */
+    protected reportProgress(): void {
+        this.lastProgress = Date.now();
+    }
+
+    /**
+     * Get when a transfer on this connection last moved data, 0 if none did yet
+     * Lets long transfers run as long as they make progress
+     */
+    public getLastProgress(): number {
+        return this.lastProgress;
+    }
+
+    /**
+     * Ask the user for a credential
+     * @throws AuthenticationError if prompting is unavailable or the user cancels
+     */
+    protected async requestCredential(field: CredentialRequest['field'], retry: boolean): Promise<string> {
+        const value = this.prompts.credential
+            ? await this.prompts.credential({ field, config: this.config, retry })
+            : undefined;
+
+        if (value === undefined) {
+            throw new AuthenticationError(
+                `${retry ? 'Authentication failed' : `No ${field} given`} for ${this.config.username}@${this.config.host}`
+            );
+        }
+        return value;
+    }
+
+    /**
+     * Set the mode of an uploaded file from the configured permission rules
+     * A failed chmod is only logged, the upload itself succeeded
+     */
+    protected async applyFilePermissions(remotePath: string): Promise<void> {
+        const relativePath = this.getPermissionPath(remotePath);
+        const mode = relativePath ? this.permissionRules.getMode(relativePath, false) : undefined;
+        if (mode !== undefined) {
+            await this.setPermissions(remotePath, mode);
+        }
+    }
+
+    /**
+     * Set the mode of an ensured directory and its parents below remotePath
+     * Each directory is only changed once per connection
+     */
+    protected async applyDirectoryPermissions(remotePath: string): Promise<void> {
+        const relativePath = this.getPermissionPath(remotePath);
+        if (!relativePath) {
+            return;
+        }
+
+        const root = normalizePath(this.config.remotePath);
+        const segments = relativePath.split('/');
+        for (let i = 1; i <= segments.length; i++) {
+            const directory = segments.slice(0, i).join('/');
+            const directoryPath = path.posix.join(root, directory);
+            if (this.permittedDirectories.has(directoryPath)) {
+                continue;
+            }
+            this.permittedDirectories.add(directoryPath);
+
+            const mode = this.permissionRules.getMode(directory, true);
+            if (mode !== undefined) {
+                await this.setPermissions(directoryPath, mode);
+            }
+        }
+    }
+
+    /**
+     * Get the path the permission rules are matched against
+     * Returns undefined without rules and for paths outside remotePath
+     */
+    private getPermissionPath(remotePath: string): string | undefined {
+        if (this.permissionRules.isEmpty()) {
+            return undefined;
+        }
+
+        const relativePath = path.posix.relative(
+            path.posix.resolve('/', normalizePath(this.config.remotePath)),
+            path.posix.resolve('/', normalizePath(remotePath))
+        );
+        if (!relativePath || relativePath.startsWith('..')) {
+            return undefined;
+        }
+        return relativePath;
+    }
+
+    /**
+     * Change the mode of a path, logging instead of failing
+     */
+    private async setPermissions(remotePath: string, mode: number): Promise<void> {
+        try {
+            await this.chmod(remotePath, mode);
+            Logger.debug(`Set permissions of ${remotePath} to ${mode.toString(8).padStart(3, '0')}`);
+        } catch (error) {
+            Logger.warn(`Could not set permissions of ${remotePath}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Check if a file is large enough to be transferred through a partial file that can be resumed
+     */
+    protected isResumable(size: number): boolean {
+        const threshold = this.config.resumeThreshold;
+        return threshold > 0 && size > threshold;
+    }
+
+    /**
+     * Transfer a file through a partial file that a later attempt can continue
+     * Only a partial file of an earlier attempt from the same source is continued,
+     * anything else starts over. A retry waits until the attempt it replaces has stopped,
+     * so two attempts never write to the same partial file
+     * @param partPath Partial file of the transfer
+     * @param source Size and modification time of the source file
+     * @param size Size of the source file
+     * @param getPartSize Read the size of the existing partial file
+     * @param transfer Copy the data from the offset on and move the partial file into place
+     */
+    protected async transferResumable(
+        partPath: string,
+        source: string,
+        size: number,
+        getPartSize: () => Promise<number>,
+        transfer: (offset: number) => Promise<void>
+    ): Promise<void> {
+        const key = `${this.config.host}:${partPath}`;
+        const previous = RemoteClient.runningTransfers.get(key);
+
+        const running = (async () => {
+            await previous?.catch(() => undefined);
+
+            let offset = 0;
+            if (RemoteClient.partialTransfers.get(key) === source) {
+                try {
+                    offset = await getPartSize();
+                } catch {
+                    offset = 0;
+                }
+                if (offset > size) {
+                    offset = 0;
+                }
+            }
+
+            RemoteClient.partialTransfers.set(key, source);
+            if (offset > 0) {
+                Logger.info(`Resuming ${path.basename(partPath, PARTIAL_SUFFIX)} at ${formatFileSize(offset)} of ${formatFileSize(size)}`);
+            }
+
+            await transfer(offset);
+            RemoteClient.partialTransfers.delete(key);
+        })();
+
+        RemoteClient.runningTransfers.set(key, running);
+        try {
+            await running;
+        } finally {
+            if (RemoteClient.runningTransfers.get(key) === running) {
+                RemoteClient.runningTransfers.delete(key);
+            }
+        }
     }
 
     /**
@@ -51,11 +325,13 @@ export abstract class RemoteClient {
 
     /**
      * Upload a file to the remote server
+     * Files above resumeThreshold continue where a failed attempt stopped
      */
     abstract uploadFile(localPath: string, remotePath: string): Promise<TransferResult>;
 
     /**
      * Download a file from the remote server
+     * Files above resumeThreshold continue where a failed attempt stopped
      */
     abstract downloadFile(remotePath: string, localPath: string): Promise<TransferResult>;
 
@@ -69,6 +345,17 @@ export abstract class RemoteClient {
      */
     abstract deleteDirectory(remotePath: string): Promise<void>;
 
+    /**
+     * Rename or move a file or directory on the remote server
+     */
+    abstract rename(fromPath: string, toPath: string): Promise<void>;
+
+    /**
+     * Change the Unix permissions of a file or directory on the remote server
+     * @param mode Mode bits, e.g. 0o644
+     */
+    abstract chmod(remotePath: string, mode: number): Promise<void>;
+
     /**
      * Create a directory on the remote server
      */
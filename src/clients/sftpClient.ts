@@ -1,18 +1,31 @@
 import SftpClient from 'ssh2-sftp-client';
+import { Client as SshClient, ClientChannel, HostVerifier, utils as sshUtils } from 'ssh2';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { pipeline } from 'stream/promises';
 import { FtpSyncConfig } from '../types';
 import { Logger, normalizePath, getParentDir } from '../utils';
-import { RemoteClient, TransferResult, RemoteFileInfo } from './remoteClient';
+import {
+    RemoteClient, TransferResult, RemoteFileInfo, AuthPrompts, AuthenticationError, HostKeyError, MAX_AUTH_ATTEMPTS, PARTIAL_SUFFIX
+} from './remoteClient';
+import { applySshConfig, readSshConfig } from './sshConfig';
+
+// Minimum time to wait for the SSH handshake when a one-time code may be typed
+const KEYBOARD_INTERACTIVE_TIMEOUT = 120000;
 
 /**
  * SFTP Client implementation using ssh2-sftp-client
  */
 export class SftpClientWrapper extends RemoteClient {
     private client: SftpClient;
+    private jumpClient: SshClient | null = null; // Connection to the ProxyJump host, if any
+    private hostKeyError: Error | null = null; // Why the last host key check failed
+    private onStep = () => this.reportProgress(); // Progress callback of fastPut and fastGet
 
-    constructor(config: FtpSyncConfig) {
-        super(config);
+    constructor(config: FtpSyncConfig, prompts?: AuthPrompts) {
+        // Resolve sshConfigHost and ~ in privateKeyPath
+        super(applySshConfig(config), prompts);
         this.client = new SftpClient();
     }
 
@@ -20,31 +33,82 @@ export class SftpClientWrapper extends RemoteClient {
         try {
             Logger.info(`Connecting to SFTP server ${this.config.host}:${this.config.port}...`);
             
+            const agent = this.getAgentSocket();
             const connectionOptions: SftpClient.ConnectOptions = {
                 host: this.config.host,
                 port: this.config.port,
                 username: this.config.username,
-                readyTimeout: this.config.timeout
+                agent,
+                tryKeyboard: this.config.tryKeyboard,
+                hostVerifier: this.createHostVerifier(this.config.host, this.config.port!),
+                // Leave time to type a one-time code
+                readyTimeout: this.config.tryKeyboard
+                    ? Math.max(this.config.timeout, KEYBOARD_INTERACTIVE_TIMEOUT)
+                    : this.config.timeout
             };
 
             // Use private key if provided, otherwise use password
+            // Without either, only ask for a password if the agent or keyboard-interactive can't log in
+            const usePassword = !this.config.privateKeyPath;
             if (this.config.privateKeyPath) {
                 const privateKey = fs.readFileSync(this.config.privateKeyPath);
                 connectionOptions.privateKey = privateKey;
-                if (this.config.passphrase) {
-                    connectionOptions.passphrase = this.config.passphrase;
+                const passphrase = await this.unlockPrivateKey(privateKey);
+                if (passphrase) {
+                    connectionOptions.passphrase = passphrase;
                 }
             } else if (this.config.password) {
                 connectionOptions.password = this.config.password;
+            } else if (!agent && !this.config.tryKeyboard) {
+                connectionOptions.password = await this.requestCredential('password', false);
             }
 
             if (this.config.debug) {
                 connectionOptions.debug = (msg: string) => Logger.debug(`SFTP: ${msg}`);
             }
 
-            await this.client.connect(connectionOptions);
+            const proxyJump = this.config.sshConfigHost ? readSshConfig(this.config.sshConfigHost).proxyJump : undefined;
+
+            for (let attempt = 1; ; attempt++) {
+                const keyboardInteractive = this.createKeyboardInteractiveHandler(connectionOptions);
+                if (this.config.tryKeyboard) {
+                    this.client.on('keyboard-interactive', keyboardInteractive);
+                }
+
+                try {
+                    // Every attempt needs a fresh tunnel
+                    if (proxyJump && proxyJump.toLowerCase() !== 'none') {
+                        connectionOptions.sock = await this.openJumpTunnel(proxyJump, agent);
+                    }
+                    await this.client.connect(connectionOptions);
+                    break;
+                } catch (error) {
+                    this.closeJumpClient();
+                    // ssh2 only reports "verification failed", show the real reason
+                    if (this.hostKeyError) {
+                        throw this.hostKeyError;
+                    }
+                    if (!this.isAuthenticationFailure(error as Error)) {
+                        throw error;
+                    }
+                    // A rejected key can't be fixed by asking, a rejected password can
+                    if (!usePassword || !this.prompts.credential || attempt >= MAX_AUTH_ATTEMPTS) {
+                        throw new AuthenticationError(
+                            `Server rejected all authentication methods (${this.describeAuthMethods(connectionOptions)}) ` +
+                            `for ${this.config.username}@${this.config.host}`
+                        );
+                    }
+                    const rejected = !!connectionOptions.password;
+                    Logger.warn(`${rejected ? 'Password rejected' : 'Login failed, asking for a password'} ` +
+                        `for ${this.config.username}@${this.config.host} (attempt ${attempt}/${MAX_AUTH_ATTEMPTS})`);
+                    connectionOptions.password = await this.requestCredential('password', rejected);
+                } finally {
+                    this.client.removeListener('keyboard-interactive', keyboardInteractive);
+                }
+            }
             
             this.connected = true;
+            this.permittedDirectories.clear();
             Logger.success(`Connected to SFTP server ${this.config.host}`);
         } catch (error) {
             this.connected = false;
@@ -53,6 +117,217 @@ export class SftpClientWrapper extends RemoteClient {
         }
     }
 
+    /**
+     * Find the passphrase that decrypts a private key, asking the user if the
+     * configured one is missing or wrong
+     * @returns The passphrase, or undefined if the key is not encrypted
+     */
+    private async unlockPrivateKey(privateKey: Buffer): Promise<string | undefined> {
+        let passphrase = this.config.passphrase;
+        // Legacy PEM keys report a wrong passphrase as a malformed key
+        const isEncryptedPem = privateKey.toString('utf-8').includes('ENCRYPTED');
+
+        for (let attempt = 1; ; attempt++) {
+            let parsed: ReturnType<typeof sshUtils.parseKey>;
+            try {
+                parsed = sshUtils.parseKey(privateKey, passphrase);
+            } catch (error) {
+                parsed = error as Error;
+            }
+            if (!(parsed instanceof Error)) {
+                return passphrase;
+            }
+            if (!/passphrase/i.test(parsed.message) && !(passphrase && isEncryptedPem)) {
+                throw new Error(`Cannot read private key ${this.config.privateKeyPath}: ${parsed.message}`);
+            }
+            if (attempt > MAX_AUTH_ATTEMPTS) {
+                throw new AuthenticationError(`Wrong passphrase for ${this.config.privateKeyPath}`);
+            }
+            passphrase = await this.requestCredential('passphrase', !!passphrase);
+        }
+    }
+
+    /**
+     * Get the SSH agent socket to use, if any
+     * Defaults to SSH_AUTH_SOCK so a running ssh-agent works without configuration
+     */
+    private getAgentSocket(): string | undefined {
+        if (this.config.agent === false) {
+            return undefined;
+        }
+        if (typeof this.config.agent === 'string' && this.config.agent) {
+            return this.config.agent;
+        }
+        return process.env.SSH_AUTH_SOCK || undefined;
+    }
+
+    /**
+     * Answer the server's keyboard-interactive prompts
+     * A lone password prompt is answered with the known password once, everything
+     * else (e.g. a 2FA code) is shown to the user
+     */
+    private createKeyboardInteractiveHandler(connectionOptions: SftpClient.ConnectOptions) {
+        let passwordUsed = false;
+
+        return (
+            name: string,
+            instructions: string,
+            _lang: string,
+            prompts: Array<{ prompt: string; echo?: boolean }>,
+            finish: (answers: string[]) => void
+        ) => {
+            if (prompts.length === 0) {
+                finish([]);
+                return;
+            }
+
+            const password = connectionOptions.password;
+            if (password && !passwordUsed && prompts.length === 1 && !prompts[0].echo && /password/i.test(prompts[0].prompt)) {
+                passwordUsed = true;
+                finish([password]);
+                return;
+            }
+
+            if (!this.prompts.keyboardInteractive) {
+                Logger.warn('Server asked for keyboard-interactive input, but prompting is not available');
+                finish([]);
+                return;
+            }
+
+            Logger.info(`Server asks for keyboard-interactive input${name ? `: ${name}` : ''}`);
+            this.prompts.keyboardInteractive({
+                config: this.config,
+                name,
+                instructions,
+                prompts: prompts.map(p => ({ prompt: p.prompt, echo: !!p.echo }))
+            }).then(
+                // An empty answer makes the server reject the attempt
+                answers => finish(answers || []),
+                () => finish([])
+            );
+        };
+    }
+
+    /**
+     * Check the server's host key before logging in
+     * Without a host key prompt every key is accepted
+     */
+    private createHostVerifier(host: string, port: number): HostVerifier | undefined {
+        const hostKeyPrompt = this.prompts.hostKey;
+        if (!hostKeyPrompt) {
+            return undefined;
+        }
+        this.hostKeyError = null;
+
+        return (key, verify) => {
+            hostKeyPrompt({ host, port, key }).then(
+                trusted => {
+                    if (!trusted) {
+                        this.hostKeyError = new HostKeyError(`Host key of ${host}:${port} was not trusted`);
+                    }
+                    verify(trusted);
+                },
+                error => {
+                    this.hostKeyError = error as Error;
+                    verify(false);
+                }
+            );
+        };
+    }
+
+    /**
+     * List the authentication methods offered, for error messages
+     */
+    private describeAuthMethods(connectionOptions: SftpClient.ConnectOptions): string {
+        const methods: string[] = [];
+        if (connectionOptions.password) {
+            methods.push('password');
+        }
+        if (connectionOptions.privateKey) {
+            methods.push('key');
+        }
+        if (connectionOptions.agent) {
+            methods.push('agent');
+        }
+        if (connectionOptions.tryKeyboard) {
+            methods.push('keyboard-interactive');
+        }
+        return methods.join(', ') || 'none';
+    }
+
+    /**
+     * Check if the server refused all authentication methods
+     */
+    private isAuthenticationFailure(error: Error): boolean {
+        return /authentication methods failed|permission denied/i.test(error.message);
+    }
+
+    /**
+     * Connect to the ProxyJump host and open a tunnel to the target server
+     * The jump host is looked up in ~/.ssh/config as well and authenticates
+     * with the SSH agent or its unencrypted IdentityFile
+     */
+    private async openJumpTunnel(proxyJump: string, agent: string | undefined): Promise<ClientChannel> {
+        if (proxyJump.includes(',')) {
+            throw new Error(`ProxyJump chains are not supported (${proxyJump}) - use a single jump host`);
+        }
+
+        // [user@]host[:port]
+        const match = /^(?:([^@]+)@)?([^:]+)(?::(\d+))?$/.exec(proxyJump.trim());
+        if (!match) {
+            throw new Error(`Invalid ProxyJump value: ${proxyJump}`);
+        }
+        const jumpConfig = readSshConfig(match[2]);
+        const jumpHost = jumpConfig.hostName || match[2];
+        const jumpPort = match[3] ? parseInt(match[3], 10) : jumpConfig.port || 22;
+
+        const privateKey = jumpConfig.identityFiles
+            .filter(file => fs.existsSync(file))
+            .map(file => fs.readFileSync(file))
+            .find(key => !(sshUtils.parseKey(key) instanceof Error));
+
+        Logger.info(`Connecting via jump host ${jumpHost}:${jumpPort}...`);
+        const jumpClient = new SshClient();
+        this.jumpClient = jumpClient;
+        // Errors after the tunnel is up surface through the SFTP connection
+        jumpClient.on('error', (error) => Logger.debug(`Jump host ${jumpHost}: ${error.message}`));
+
+        await new Promise<void>((resolve, reject) => {
+            jumpClient
+                .once('ready', () => resolve())
+                .once('error', (error) => reject(this.hostKeyError || new Error(`Jump host ${jumpHost}: ${error.message}`)))
+                .connect({
+                    host: jumpHost,
+                    port: jumpPort,
+                    username: match[1] || jumpConfig.user || os.userInfo().username,
+                    agent,
+                    privateKey,
+                    hostVerifier: this.createHostVerifier(jumpHost, jumpPort),
+                    readyTimeout: this.config.timeout
+                });
+        });
+
+        return new Promise<ClientChannel>((resolve, reject) => {
+            jumpClient.forwardOut('127.0.0.1', 0, this.config.host, this.config.port!, (error, stream) => {
+                if (error) {
+                    reject(new Error(`Jump host ${jumpHost} cannot reach ${this.config.host}: ${error.message}`));
+                } else {
+                    resolve(stream);
+                }
+            });
+        });
+    }
+
+    /**
+     * Close the connection to the jump host
+     */
+    private closeJumpClient(): void {
+        if (this.jumpClient) {
+            this.jumpClient.end();
+            this.jumpClient = null;
+        }
+    }
+
     async disconnect(): Promise<void> {
         try {
             await this.client.end();
@@ -61,6 +336,8 @@ export class SftpClientWrapper extends RemoteClient {
         } catch (error) {
             this.connected = false;
             Logger.error(`Error disconnecting from SFTP server: ${(error as Error).message}`);
+        } finally {
+            this.closeJumpClient();
         }
     }
 
@@ -91,8 +368,14 @@ export class SftpClientWrapper extends RemoteClient {
             // Ensure remote directory exists
             await this.ensureDirectory(getParentDir(normalizedRemotePath));
             
-            Logger.debug(`Uploading ${localPath} to ${normalizedRemotePath}`);
-            await this.client.fastPut(localPath, normalizedRemotePath);
+            const stat = fs.statSync(localPath);
+            if (this.isResumable(stat.size)) {
+                await this.uploadResumable(localPath, normalizedRemotePath, stat);
+            } else {
+                Logger.debug(`Uploading ${localPath} to ${normalizedRemotePath}`);
+                await this.client.fastPut(localPath, normalizedRemotePath, { step: this.onStep });
+            }
+            await this.applyFilePermissions(normalizedRemotePath);
             
             Logger.success(`Uploaded: ${path.basename(localPath)}`);
             return {
@@ -121,8 +404,13 @@ export class SftpClientWrapper extends RemoteClient {
                 fs.mkdirSync(localDir, { recursive: true });
             }
             
-            Logger.debug(`Downloading ${normalizedRemotePath} to ${localPath}`);
-            await this.client.fastGet(normalizedRemotePath, localPath);
+            const stat = this.config.resumeThreshold > 0 ? await this.client.stat(normalizedRemotePath) : undefined;
+            if (stat && this.isResumable(stat.size)) {
+                await this.downloadResumable(normalizedRemotePath, localPath, stat);
+            } else {
+                Logger.debug(`Downloading ${normalizedRemotePath} to ${localPath}`);
+                await this.client.fastGet(normalizedRemotePath, localPath, { step: this.onStep });
+            }
             
             Logger.success(`Downloaded: ${path.basename(remotePath)}`);
             return {
@@ -141,6 +429,79 @@ export class SftpClientWrapper extends RemoteClient {
         }
     }
 
+    /**
+     * Upload a large file to a partial file next to the target, then move it into place
+     * After a failed attempt the rest is written to the partial file at its current size
+     */
+    private async uploadResumable(localPath: string, remotePath: string, stat: fs.Stats): Promise<void> {
+        const partPath = remotePath + PARTIAL_SUFFIX;
+
+        await this.transferResumable(
+            partPath,
+            `${stat.size}:${stat.mtimeMs}`,
+            stat.size,
+            async () => (await this.client.stat(partPath)).size,
+            async (offset) => {
+                if (offset > 0) {
+                    Logger.debug(`Writing ${localPath} to ${partPath} from byte ${offset}`);
+                    await pipeline(
+                        this.tracked(fs.createReadStream(localPath, { start: offset })),
+                        this.client.createWriteStream(partPath, { flags: 'r+', start: offset })
+                    );
+                } else {
+                    Logger.debug(`Uploading ${localPath} to ${partPath}`);
+                    await this.client.fastPut(localPath, partPath, { step: this.onStep });
+                }
+
+                // Plain SFTP rename refuses to overwrite, the OpenSSH extension doesn't
+                try {
+                    await this.client.posixRename(partPath, remotePath);
+                } catch {
+                    if (await this.exists(remotePath)) {
+                        await this.client.delete(remotePath);
+                    }
+                    await this.client.rename(partPath, remotePath);
+                }
+            }
+        );
+    }
+
+    /**
+     * Report progress for every chunk a stream reads
+     */
+    private tracked<T extends NodeJS.ReadableStream>(stream: T): T {
+        stream.on('data', this.onStep);
+        return stream;
+    }
+
+    /**
+     * Download a large file to a partial file next to the target, then move it into place
+     * After a failed attempt the download continues at the partial file's size
+     */
+    private async downloadResumable(remotePath: string, localPath: string, stat: SftpClient.FileStats): Promise<void> {
+        const partPath = localPath + PARTIAL_SUFFIX;
+
+        await this.transferResumable(
+            partPath,
+            `${stat.size}:${stat.modifyTime}`,
+            stat.size,
+            async () => fs.statSync(partPath).size,
+            async (offset) => {
+                if (offset > 0) {
+                    Logger.debug(`Downloading ${remotePath} to ${partPath} from byte ${offset}`);
+                    await pipeline(
+                        this.tracked(this.client.createReadStream(remotePath, { start: offset })),
+                        fs.createWriteStream(partPath, { flags: 'r+', start: offset })
+                    );
+                } else {
+                    Logger.debug(`Downloading ${remotePath} to ${partPath}`);
+                    await this.client.fastGet(remotePath, partPath, { step: this.onStep });
+                }
+                fs.renameSync(partPath, localPath);
+            }
+        );
+    }
+
     async deleteFile(remotePath: string): Promise<void> {
         const normalizedRemotePath = normalizePath(remotePath);
         
@@ -154,6 +515,32 @@ export class SftpClientWrapper extends RemoteClient {
         }
     }
 
+    async rename(fromPath: string, toPath: string): Promise<void> {
+        const normalizedFromPath = normalizePath(fromPath);
+        const normalizedToPath = normalizePath(toPath);
+
+        try {
+            Logger.debug(`Renaming remote ${normalizedFromPath} to ${normalizedToPath}`);
+            await this.client.rename(normalizedFromPath, normalizedToPath);
+            Logger.success(`Renamed: ${path.basename(fromPath)} → ${path.basename(toPath)}`);
+        } catch (error) {
+            Logger.error(`Failed to rename ${fromPath}: ${(error as Error).message}`);
+            throw error;
+        }
+    }
+
+    async chmod(remotePath: string, mode: number): Promise<void> {
+        const normalizedRemotePath = normalizePath(remotePath);
+
+        try {
+            await this.client.chmod(normalizedRemotePath, mode);
+            Logger.debug(`Changed permissions of ${normalizedRemotePath} to ${mode.toString(8)}`);
+        } catch (error) {
+            Logger.error(`Failed to change permissions of ${remotePath}: ${(error as Error).message}`);
+            throw error;
+        }
+    }
+
     async deleteDirectory(remotePath: string): Promise<void> {
         const normalizedRemotePath = normalizePath(remotePath);
         
@@ -188,8 +575,16 @@ export class SftpClientWrapper extends RemoteClient {
         try {
             const exists = await this.exists(normalizedRemotePath);
             if (!exists) {
-                await this.client.mkdir(normalizedRemotePath, true);
+                try {
+                    await this.client.mkdir(normalizedRemotePath, true);
+                } catch (error) {
+                    // Another connection of the pool may have created it in the meantime
+                    if (!await this.isDirectory(normalizedRemotePath)) {
+                        throw error;
+                    }
+                }
             }
+            await this.applyDirectoryPermissions(normalizedRemotePath);
         } catch (error) {
             Logger.error(`Failed to ensure directory ${remotePath}: ${(error as Error).message}`);
             throw error;
@@ -206,7 +601,8 @@ export class SftpClientWrapper extends RemoteClient {
                 path: normalizePath(path.join(normalizedRemotePath, item.name)),
                 type: item.type === 'd' ? 'directory' as const : item.type === 'l' ? 'link' as const : 'file' as const,
                 size: item.size,
-                modifiedTime: new Date(item.modifyTime)
+                modifiedTime: new Date(item.modifyTime),
+                ...SftpClientWrapper.getOwnership(item)
             }));
         } catch (error) {
             Logger.error(`Failed to list directory ${remotePath}: ${(error as Error).message}`);
@@ -247,10 +643,29 @@ export class SftpClientWrapper extends RemoteClient {
                 path: normalizedRemotePath,
                 type: stat.isDirectory ? 'directory' : 'file',
                 size: stat.size,
-                modifiedTime: new Date(stat.modifyTime)
+                modifiedTime: new Date(stat.modifyTime),
+                permissions: stat.mode & 0o777,
+                owner: String(stat.uid),
+                group: String(stat.gid)
             };
         } catch {
             return null;
         }
     }
+
+    /**
+     * Get permissions, owner and group from a directory listing entry
+     * Owner and group names come from the ls-style long name, which most servers send
+     */
+    private static getOwnership(item: SftpClient.FileInfo & { longname?: string }): Pick<RemoteFileInfo, 'permissions' | 'owner' | 'group'> {
+        const toBits = (rights: string): number =>
+            (rights.includes('r') ? 4 : 0) | (rights.includes('w') ? 2 : 0) | (/[xst]/.test(rights) ? 1 : 0);
+
+        const [, , owner, group] = (item.longname || '').trim().split(/\s+/);
+        return {
+            permissions: (toBits(item.rights.user) << 6) | (toBits(item.rights.group) << 3) | toBits(item.rights.other),
+            owner: owner || String(item.owner),
+            group: group || String(item.group)
+        };
+    }
 }
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FtpSyncConfig } from '../types';
+import { Logger, expandHomeDir } from '../utils';
+
+/**
+ * Settings for one host from an OpenSSH config file
+ */
+export interface SshHostConfig {
+    hostName?: string;
+    port?: number;
+    user?: string;
+    identityFiles: string[];
+    proxyJump?: string;
+}
+
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * Get the default OpenSSH client config path (~/.ssh/config)
+ */
+export function getSshConfigPath(): string {
+    return path.join(os.homedir(), '.ssh', 'config');
+}
+
+/**
+ * Look up a host alias in an OpenSSH config file
+ * Follows OpenSSH semantics: the first value found for a keyword wins,
+ * IdentityFile accumulates. Match blocks are not supported and skipped.
+ * @param alias Host alias as used with `ssh <alias>`
+ * @param configPath Config file to read, defaults to ~/.ssh/config
+ */
+export function readSshConfig(alias: string, configPath = getSshConfigPath()): SshHostConfig {
+    const result: SshHostConfig = { identityFiles: [] };
+    parseFile(configPath, alias, result, 0);
+
+    // Expand tokens and ~ the way ssh does
+    result.hostName = result.hostName?.replace(/%h/g, alias);
+    const hostName = result.hostName || alias;
+    const user = result.user || os.userInfo().username;
+    result.identityFiles = result.identityFiles.map(file => expandHomeDir(file
+        .replace(/%d/g, os.homedir())
+        .replace(/%u/g, os.userInfo().username)
+        .replace(/%h/g, hostName)
+        .replace(/%r/g, user)
+        .replace(/%%/g, '%')));
+
+    return result;
+}
+
+/**
+ * Fill in host, port, username and private key from the profile's sshConfigHost
+ * Fields set explicitly in .ftpsync.json win over the SSH config
+ * Also expands ~ in privateKeyPath
+ */
+export function applySshConfig(config: FtpSyncConfig): FtpSyncConfig {
+    const resolved = { ...config };
+
+    if (config.protocol === 'sftp' && config.sshConfigHost) {
+        const sshConfig = readSshConfig(config.sshConfigHost);
+        resolved.host = config.host || sshConfig.hostName || config.sshConfigHost;
+        resolved.port = config.port || sshConfig.port || 22;
+        resolved.username = config.username || sshConfig.user || os.userInfo().username;
+
+        // Like ssh, use the first identity file that exists
+        if (!config.privateKeyPath) {
+            resolved.privateKeyPath = sshConfig.identityFiles.find(file => fs.existsSync(file));
+        }
+    }
+
+    if (resolved.privateKeyPath) {
+        resolved.privateKeyPath = expandHomeDir(resolved.privateKeyPath);
+    }
+
+    return resolved;
+}
+
+/**
+ * Parse a config file, collecting settings for the alias into result
+ */
+function parseFile(filePath: string, alias: string, result: SshHostConfig, depth: number): void {
+    if (depth > MAX_INCLUDE_DEPTH) {
+        Logger.warn(`SSH config: too many nested Include directives in ${filePath}`);
+        return;
+    }
+
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+        if (depth === 0) {
+            Logger.debug(`SSH config not found at ${filePath}`);
+        }
+        return;
+    }
+
+    // Settings before the first Host line apply to every host
+    let active = true;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const match = /^(\S+?)(?:\s*=\s*|\s+)(.+)$/.exec(line);
+        if (!match) {
+            continue;
+        }
+        const keyword = match[1].toLowerCase();
+        const value = unquote(match[2].trim());
+
+        switch (keyword) {
+            case 'host':
+                active = matchesHostPattern(alias, value.split(/\s+/));
+                break;
+            case 'match':
+                active = false;
+                break;
+            case 'include':
+                if (active) {
+                    for (const included of resolveInclude(value, filePath)) {
+                        parseFile(included, alias, result, depth + 1);
+                    }
+                }
+                break;
+            case 'hostname':
+                if (active && result.hostName === undefined) {
+                    result.hostName = value;
+                }
+                break;
+            case 'port':
+                if (active && result.port === undefined) {
+                    result.port = parseInt(value, 10) || undefined;
+                }
+                break;
+            case 'user':
+                if (active && result.user === undefined) {
+                    result.user = value;
+                }
+                break;
+            case 'identityfile':
+                if (active) {
+                    result.identityFiles.push(value);
+                }
+                break;
+            case 'proxyjump':
+                if (active && result.proxyJump === undefined) {
+                    result.proxyJump = value;
+                }
+                break;
+        }
+    }
+}
+
+/**
+ * Check a host against OpenSSH host patterns (wildcards and !negation),
+ * as used in Host lines and known_hosts
+ */
+export function matchesHostPattern(alias: string, patterns: string[]): boolean {
+    let matched = false;
+
+    for (const pattern of patterns) {
+        const negated = pattern.startsWith('!');
+        const source = (negated ? pattern.slice(1) : pattern)
+            .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+            .replace(/\*/g, '.*')
+            .replace(/\?/g, '.');
+
+        if (new RegExp(`^${source}$`, 'i').test(alias)) {
+            if (negated) {
+                return false;
+            }
+            matched = true;
+        }
+    }
+
+    return matched;
+}
+
+/**
+ * Resolve the files of an Include directive
+ * Relative paths are relative to ~/.ssh; * is supported in the file name
+ */
+function resolveInclude(value: string, fromFile: string): string[] {
+    const files: string[] = [];
+
+    for (const entry of value.split(/\s+/)) {
+        let includePath = expandHomeDir(entry);
+        if (!path.isAbsolute(includePath)) {
+            includePath = path.join(os.homedir(), '.ssh', includePath);
+        }
+
+        const dir = path.dirname(includePath);
+        const pattern = path.basename(includePath);
+        if (!pattern.includes('*')) {
+            files.push(includePath);
+            continue;
+        }
+
+        try {
+            const regex = new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+            fs.readdirSync(dir)
+                .filter(name => regex.test(name))
+                .sort()
+                .forEach(name => files.push(path.join(dir, name)));
+        } catch {
+            Logger.debug(`SSH config: cannot read include directory ${dir} (from ${fromFile})`);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Remove surrounding double quotes
+ */
+function unquote(value: string): string {
+    return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
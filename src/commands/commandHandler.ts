@@ -1,19 +1,36 @@
 import * as vscode from 'vscode';
-import { ConfigManager, FileWatcher } from '../core';
-import { StatusBar } from '../ui';
-import { Logger, getRelativePath, localToRemotePath, showInfoMessage, showSuccessMessage, showWarningMessage, showErrorMessage, withFileProgress, withFolderProgress } from '../utils';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager, ConflictResolution, FileWatcher, RemoteChange, RemoteWatcher, SyncMode, UploadConflict, credentialStore, hostKeyStore } from '../core';
+import { FtpSyncConfig } from '../types';
+import { StatusBar, TransferPreview, RemoteFileSystemProvider } from '../ui';
+import { Logger, formatFileSize, getLocalWorkspaceFolders, getRelativePath, localToRemotePath, showInfoMessage, showSuccessMessage, showWarningMessage, showErrorMessage, withFileProgress, withFolderProgress, withIndeterminateProgress } from '../utils';
+
+/**
+ * A diff between a local file and a downloaded copy of its remote version
+ */
+interface RemoteDiff {
+    tempPath: string;
+    remotePath: string;
+}
 
 /**
  * Command handler for all FTP Sync commands
  */
 export class CommandHandler {
     private configManager: ConfigManager;
-    private watchers: Map<string, FileWatcher> = new Map();
+    private watchers: Map<string, FileWatcher[]> = new Map(); // Primary target first, then mirrors
+    private remoteWatchers: Map<string, RemoteWatcher> = new Map(); // Server polling by workspace path
+    private remoteDiffs: Map<string, RemoteDiff> = new Map(); // Open remote diffs by local fsPath, as resourcePath in when clauses
     private statusBar: StatusBar;
+    private transferPreview: TransferPreview;
 
-    constructor(configManager: ConfigManager, statusBar: StatusBar) {
+    constructor(configManager: ConfigManager, statusBar: StatusBar, transferPreview: TransferPreview) {
         this.configManager = configManager;
         this.statusBar = statusBar;
+        this.transferPreview = transferPreview;
     }
 
     /**
@@ -25,30 +42,59 @@ export class CommandHandler {
             vscode.commands.registerCommand('ftpSync.uploadFolder', (uri?: vscode.Uri) => this.uploadFolder(uri)),
             vscode.commands.registerCommand('ftpSync.downloadFile', (uri?: vscode.Uri) => this.downloadFile(uri)),
             vscode.commands.registerCommand('ftpSync.downloadFolder', (uri?: vscode.Uri) => this.downloadFolder(uri)),
+            vscode.commands.registerCommand('ftpSync.syncFolder', (uri?: vscode.Uri) => this.syncFolder(uri)),
+            vscode.commands.registerCommand('ftpSync.diffWithRemote', (uri?: vscode.Uri) => this.diffWithRemote(uri)),
+            vscode.commands.registerCommand('ftpSync.diffUploadLocal', (uri?: vscode.Uri) => this.resolveRemoteDiff(uri, 'upload')),
+            vscode.commands.registerCommand('ftpSync.diffTakeRemote', (uri?: vscode.Uri) => this.resolveRemoteDiff(uri, 'download')),
             vscode.commands.registerCommand('ftpSync.startWatcher', () => this.startWatcher()),
             vscode.commands.registerCommand('ftpSync.stopWatcher', () => this.stopWatcher()),
             vscode.commands.registerCommand('ftpSync.toggleWatcher', () => this.toggleWatcher()),
             vscode.commands.registerCommand('ftpSync.createConfig', () => this.createConfig()),
+            vscode.commands.registerCommand('ftpSync.clearManifest', () => this.clearManifest()),
+            vscode.commands.registerCommand('ftpSync.switchProfile', () => this.switchProfile()),
+            vscode.commands.registerCommand('ftpSync.manageCredentials', () => this.manageCredentials()),
+            vscode.commands.registerCommand('ftpSync.forgetHostKey', () => this.forgetHostKey()),
+            vscode.commands.registerCommand('ftpSync.mountRemoteFolder', () => this.mountRemoteFolder()),
             vscode.commands.registerCommand('ftpSync.showOutput', () => Logger.show())
         ];
 
         commands.forEach(cmd => context.subscriptions.push(cmd));
+
+        // Remove the downloaded copy when a remote diff is closed
+        context.subscriptions.push(
+            vscode.window.tabGroups.onDidChangeTabs((event) => {
+                for (const tab of event.closed) {
+                    if (tab.input instanceof vscode.TabInputTextDiff) {
+                        this.closeRemoteDiff(tab.input.modified.fsPath, tab.input.original.fsPath);
+                    }
+                }
+            })
+        );
+
+        context.subscriptions.push(
+            this.configManager.onDidChangeConfig((folderPath) => this.handleConfigChange(folderPath))
+        );
+        this.updateProfileStatus();
     }
 
     /**
      * Dispose all watchers
      */
     public async dispose(): Promise<void> {
-        for (const watcher of this.watchers.values()) {
-            await watcher.stop();
+        this.stopRemoteWatchers();
+        for (const watchers of this.watchers.values()) {
+            for (const watcher of watchers) {
+                await watcher.dispose();
+            }
         }
         this.watchers.clear();
     }
 
     /**
      * Upload current file or specified file
+     * @param force Overwrite without checking for changes on the server
      */
-    private async uploadFile(uri?: vscode.Uri): Promise<void> {
+    private async uploadFile(uri?: vscode.Uri, force = false): Promise<void> {
         const fileUri = uri || vscode.window.activeTextEditor?.document.uri;
         
         if (!fileUri) {
@@ -70,12 +116,12 @@ export class CommandHandler {
         this.statusBar.showSyncing();
 
         try {
-            // Get or create watcher, ensuring we reuse existing connections
-            const watcher = await this.getOrCreateWatcher(workspacePath, config);
+            // Get or create watchers for all targets, ensuring we reuse existing connections
+            const watchers = await this.getOrCreateWatchers(workspacePath, config);
 
             const fileName = getRelativePath(workspacePath, fileUri.fsPath);
             const success = await withFileProgress(`Uploading ${fileName}`, async () => {
-                return watcher.uploadFile(fileUri.fsPath);
+                return this.uploadToTargets(watchers, fileUri.fsPath, fileName, force);
             });
             
             if (success) {
@@ -128,8 +174,43 @@ export class CommandHandler {
         this.statusBar.showSyncing();
 
         try {
-            // Get or create watcher, ensuring we reuse existing connections
-            const watcher = await this.getOrCreateWatcher(workspacePath, config);
+            // Get or create watchers for all targets, ensuring we reuse existing connections
+            const watchers = await this.getOrCreateWatchers(workspacePath, config);
+            const watcher = watchers[0];
+            const folderName = folderUri.fsPath.split(/[\\/]/).pop() || 'folder';
+
+            // Dry run: show what would be uploaded and let the user pick
+            const previewEnabled = vscode.workspace.getConfiguration('ftpSync').get<boolean>('previewFolderUploads', false);
+            if (previewEnabled) {
+                const plan = await watcher.planUploadFolder(folderUri.fsPath);
+
+                if (plan.actions.length === 0) {
+                    showInfoMessage('Folder is empty or all files are ignored');
+                    return;
+                }
+
+                const actions = await this.transferPreview.confirm(`Upload ${folderName}`, plan);
+                if (!actions) {
+                    showInfoMessage('Upload cancelled');
+                    return;
+                }
+
+                // The selected files go to every target
+                const results = await withFolderProgress(
+                    `Uploading ${folderName}`,
+                    actions.length * watchers.length,
+                    async (reportProgress) => {
+                        return this.forEachTarget(watchers, (target, offset) =>
+                            target.executeSyncActions(actions, (current, total, fileName) => {
+                                reportProgress(offset * actions.length + current, fileName);
+                            })
+                        );
+                    }
+                );
+
+                this.reportFolderUpload(results);
+                return;
+            }
             
             // Get file count for progress
             const fileCount = await watcher.getFileCount(folderUri.fsPath);
@@ -138,24 +219,21 @@ export class CommandHandler {
                 showInfoMessage('Folder is empty or all files are ignored');
                 return;
             }
-
-            const folderName = folderUri.fsPath.split(/[\\/]/).pop() || 'folder';
             
-            // Upload with progress
-            const result = await withFolderProgress(
+            // Upload with progress, one target after the other
+            const results = await withFolderProgress(
                 `Uploading ${folderName}`,
-                fileCount,
+                fileCount * watchers.length,
                 async (reportProgress) => {
-                    return watcher.uploadFolder(folderUri!.fsPath, (current, total, fileName) => {
-                        reportProgress(current, fileName);
-                    });
+                    return this.forEachTarget(watchers, (target, offset) =>
+                        target.uploadFolder(folderUri!.fsPath, (current, total, fileName) => {
+                            reportProgress(offset * fileCount + current, fileName);
+                        })
+                    );
                 }
             );
             
-            this.statusBar.showMessage(`Uploaded ${result.success} files`);
-            showSuccessMessage(
-                `Upload complete: ${result.success} succeeded, ${result.failed} failed`
-            );
+            this.reportFolderUpload(results);
         } catch (error) {
             this.statusBar.setState('error');
             Logger.error(`Folder upload failed: ${(error as Error).message}`, error as Error);
@@ -214,10 +292,301 @@ export class CommandHandler {
     }
 
     /**
-     * Download folder (placeholder)
+     * Compare a local file with its remote version in the diff editor
+     * The remote version is downloaded to a temporary file (left side)
+     * @param target Server to compare with, defaults to the primary target
+     */
+    private async diffWithRemote(uri?: vscode.Uri, target?: FileWatcher): Promise<void> {
+        const fileUri = uri || vscode.window.activeTextEditor?.document.uri;
+
+        if (!fileUri || fileUri.scheme !== 'file') {
+            showWarningMessage('No file selected');
+            return;
+        }
+
+        const config = this.configManager.getConfigForUri(fileUri);
+        if (!config) {
+            showWarningMessage('No FTP configuration found for this workspace');
+            return;
+        }
+
+        const workspacePath = this.configManager.getWorkspaceFolderPath(fileUri);
+        if (!workspacePath) {
+            return;
+        }
+
+        const remotePath = localToRemotePath(fileUri.fsPath, workspacePath, config.remotePath);
+        const fileName = getRelativePath(workspacePath, fileUri.fsPath);
+
+        // One folder per local file, keeping the file name so the diff gets the right language
+        const tempPath = path.join(
+            os.tmpdir(),
+            'ftpsync-diff',
+            crypto.createHash('sha1').update(fileUri.fsPath).digest('hex').slice(0, 12),
+            path.basename(fileUri.fsPath)
+        );
+
+        try {
+            const watcher = target || await this.getOrCreateWatcher(workspacePath, config);
+            fs.mkdirSync(path.dirname(tempPath), { recursive: true });
+
+            const exists = await withFileProgress(`Downloading ${fileName}`, () => watcher.downloadCopy(remotePath, tempPath));
+            if (!exists) {
+                showInfoMessage(`${fileName} doesn't exist on the server`);
+                return;
+            }
+
+            this.remoteDiffs.set(fileUri.fsPath, { tempPath, remotePath });
+            this.updateRemoteDiffContext();
+
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                vscode.Uri.file(tempPath),
+                fileUri,
+                `${path.basename(fileUri.fsPath)} (Remote ↔ Local)`
+            );
+        } catch (error) {
+            Logger.error(`Diff with remote failed: ${(error as Error).message}`, error as Error);
+            showErrorMessage(`Diff with remote failed: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Settle a remote diff by uploading the local version or taking the remote one
+     */
+    private async resolveRemoteDiff(uri: vscode.Uri | undefined, action: 'upload' | 'download'): Promise<void> {
+        const fileUri = uri || vscode.window.activeTextEditor?.document.uri;
+        const diff = fileUri && this.remoteDiffs.get(fileUri.fsPath);
+        if (!fileUri || !diff) {
+            showWarningMessage('No remote diff open for this file');
+            return;
+        }
+
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === fileUri.fsPath);
+
+        if (action === 'upload') {
+            // Upload what the editor shows, the user has seen the server version
+            if (document?.isDirty) {
+                await document.save();
+            }
+            await this.uploadFile(fileUri, true);
+        } else {
+            if (document?.isDirty) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Discard unsaved changes in ${path.basename(fileUri.fsPath)} and use the remote version?`,
+                    { modal: true },
+                    'Use Remote Version'
+                );
+                if (confirm !== 'Use Remote Version') {
+                    return;
+                }
+                await vscode.commands.executeCommand('workbench.action.files.revert', fileUri);
+            }
+            // Download again instead of copying, so the manifest is updated and the watcher stays quiet
+            await this.downloadFile(fileUri);
+        }
+
+        // Close the diff editor, which also removes the temporary copy
+        const diffTabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff
+                && tab.input.original.fsPath === diff.tempPath);
+        await vscode.window.tabGroups.close(diffTabs);
+        this.closeRemoteDiff(fileUri.fsPath, diff.tempPath);
+    }
+
+    /**
+     * Forget a remote diff and delete its temporary copy
+     */
+    private closeRemoteDiff(localPath: string, tempPath: string): void {
+        const diff = this.remoteDiffs.get(localPath);
+        if (!diff || diff.tempPath !== tempPath) {
+            return;
+        }
+
+        this.remoteDiffs.delete(localPath);
+        this.updateRemoteDiffContext();
+        fs.promises.rm(path.dirname(tempPath), { recursive: true, force: true }).catch(() => undefined);
+    }
+
+    /**
+     * Show the diff actions only for files with an open remote diff
+     */
+    private updateRemoteDiffContext(): void {
+        vscode.commands.executeCommand('setContext', 'ftpSync.remoteDiffFiles', [...this.remoteDiffs.keys()]);
+    }
+
+    /**
+     * Download folder from its remote counterpart
      */
     private async downloadFolder(uri?: vscode.Uri): Promise<void> {
-        showInfoMessage('Download folder feature coming soon!');
+        let folderUri = uri;
+        
+        if (!folderUri) {
+            const folders = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                openLabel: 'Download Folder'
+            });
+            
+            if (!folders || folders.length === 0) {
+                return;
+            }
+            folderUri = folders[0];
+        }
+
+        const config = this.configManager.getConfigForUri(folderUri);
+        if (!config) {
+            showWarningMessage('No FTP configuration found for this workspace');
+            return;
+        }
+
+        const workspacePath = this.configManager.getWorkspaceFolderPath(folderUri);
+        if (!workspacePath) {
+            return;
+        }
+
+        this.statusBar.showSyncing();
+
+        try {
+            // Get or create watcher, ensuring we reuse existing connections
+            const watcher = await this.getOrCreateWatcher(workspacePath, config);
+            
+            // Collect remote files first so progress has a total
+            const files = await watcher.collectRemoteFiles(folderUri.fsPath);
+            
+            if (files.length === 0) {
+                showInfoMessage('Remote folder is empty or all files are ignored');
+                return;
+            }
+
+            const folderName = folderUri.fsPath.split(/[\\/]/).pop() || 'folder';
+            
+            // Download with progress
+            const result = await withFolderProgress(
+                `Downloading ${folderName}`,
+                files.length,
+                async (reportProgress) => {
+                    return watcher.downloadFiles(files, (current, total, fileName) => {
+                        reportProgress(current, fileName);
+                    });
+                }
+            );
+            
+            this.statusBar.showMessage(`Downloaded ${result.success} files`);
+            showSuccessMessage(
+                `Download complete: ${result.success} succeeded, ${result.failed} failed`
+            );
+        } catch (error) {
+            if ((error as Error).message === 'Operation cancelled by user') {
+                showInfoMessage('Download cancelled');
+                return;
+            }
+            this.statusBar.setState('error');
+            Logger.error(`Folder download failed: ${(error as Error).message}`, error as Error);
+            showErrorMessage(`Download failed: ${(error as Error).message}`);
+        } finally {
+            this.statusBar.endSyncing();
+        }
+    }
+
+    /**
+     * Sync a folder in both directions based on a diff of local and remote files
+     */
+    private async syncFolder(uri?: vscode.Uri): Promise<void> {
+        let folderUri = uri;
+        
+        if (!folderUri) {
+            const folders = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                openLabel: 'Sync Folder'
+            });
+            
+            if (!folders || folders.length === 0) {
+                return;
+            }
+            folderUri = folders[0];
+        }
+
+        const config = this.configManager.getConfigForUri(folderUri);
+        if (!config) {
+            showWarningMessage('No FTP configuration found for this workspace');
+            return;
+        }
+
+        const workspacePath = this.configManager.getWorkspaceFolderPath(folderUri);
+        if (!workspacePath) {
+            return;
+        }
+
+        const modePick = await vscode.window.showQuickPick(
+            [
+                { label: 'Newer wins', description: 'Copy the newer version in each direction, delete nothing', mode: 'newer-wins' as SyncMode },
+                { label: 'Local wins', description: 'Make the server match the local folder (deletes remote extras)', mode: 'local-wins' as SyncMode },
+                { label: 'Remote wins', description: 'Make the local folder match the server (deletes local extras)', mode: 'remote-wins' as SyncMode }
+            ],
+            { placeHolder: 'Select sync mode' }
+        );
+
+        if (!modePick) {
+            return;
+        }
+
+        this.statusBar.showSyncing();
+
+        try {
+            // Get or create watcher, ensuring we reuse existing connections
+            const watcher = await this.getOrCreateWatcher(workspacePath, config);
+            const folderName = folderUri.fsPath.split(/[\\/]/).pop() || 'folder';
+
+            const plan = await withIndeterminateProgress(`Comparing ${folderName}`, async (updateMessage) => {
+                updateMessage('Listing local and remote files...');
+                return watcher.planSync(folderUri!.fsPath, modePick.mode);
+            });
+
+            if (plan.actions.length === 0) {
+                if (plan.conflicts.length > 0) {
+                    showWarningMessage(`Nothing to sync, ${plan.conflicts.length} files changed on both sides were left alone (see output)`);
+                } else {
+                    showInfoMessage(`Already in sync (${plan.unchanged} files unchanged)`);
+                }
+                return;
+            }
+
+            const actions = await this.transferPreview.confirm(`Sync ${folderName}`, plan);
+            if (!actions) {
+                showInfoMessage('Sync cancelled');
+                return;
+            }
+
+            const result = await withFolderProgress(
+                `Syncing ${folderName}`,
+                actions.length,
+                async (reportProgress) => {
+                    return watcher.executeSyncActions(actions, (current, total, fileName) => {
+                        reportProgress(current, fileName);
+                    });
+                }
+            );
+
+            this.statusBar.showMessage(`Synced ${result.success} files`);
+            showSuccessMessage(
+                `Sync complete: ${result.success} succeeded, ${result.failed} failed`
+            );
+        } catch (error) {
+            if ((error as Error).message === 'Operation cancelled by user') {
+                showInfoMessage('Sync cancelled');
+                return;
+            }
+            this.statusBar.setState('error');
+            Logger.error(`Folder sync failed: ${(error as Error).message}`, error as Error);
+            showErrorMessage(`Sync failed: ${(error as Error).message}`);
+        } finally {
+            this.statusBar.endSyncing();
+        }
     }
 
     /**
@@ -241,22 +610,24 @@ export class CommandHandler {
                 continue;
             }
 
-            if (this.watchers.has(folder.uri.fsPath)) {
+            const existing = this.watchers.get(folder.uri.fsPath);
+            if (existing && existing.every(w => w.isActive()) && existing[0].getConfig() === config) {
                 Logger.info(`Watcher already running for ${folder.name}`);
                 continue;
             }
 
             try {
-                const watcher = new FileWatcher(folder.uri.fsPath, config);
-                
-                watcher.onChange((event) => {
-                    this.statusBar.showSyncing();
-                    Logger.info(`${event.type}: ${event.relativePath}`);
-                    setTimeout(() => this.statusBar.endSyncing(), 500);
-                });
+                // Reuse the connections of watchers created for manual transfers
+                const watchers = await this.getOrCreateWatchers(folder.uri.fsPath, config);
+                const failed = await this.startTargetWatchers(folder.uri.fsPath, watchers);
 
-                await watcher.start();
-                this.watchers.set(folder.uri.fsPath, watcher);
+                if (failed.length === watchers.length) {
+                    throw new Error('Could not connect to any target');
+                }
+                if (failed.length > 0) {
+                    this.statusBar.setState('error');
+                    showErrorMessage(`Watcher could not start for: ${failed.join(', ')} - Check output for details`);
+                }
                 
                 Logger.success(`Watcher started for ${folder.name}`);
             } catch (error) {
@@ -267,7 +638,7 @@ export class CommandHandler {
             }
         }
 
-        if (this.watchers.size > 0) {
+        if (this.hasActiveWatchers()) {
             this.statusBar.setState('watching');
             showSuccessMessage('FTP Sync: File watcher started');
         }
@@ -277,8 +648,11 @@ export class CommandHandler {
      * Stop file watcher
      */
     private async stopWatcher(): Promise<void> {
-        for (const [path, watcher] of this.watchers) {
-            await watcher.stop();
+        this.stopRemoteWatchers();
+        for (const [path, watchers] of this.watchers) {
+            for (const watcher of watchers) {
+                await watcher.dispose();
+            }
             Logger.info(`Watcher stopped for ${path}`);
         }
         
@@ -305,7 +679,7 @@ export class CommandHandler {
             return;
         }
 
-        if (this.watchers.size > 0) {
+        if (this.hasActiveWatchers()) {
             await this.stopWatcher();
         } else {
             await this.startWatcher();
@@ -318,8 +692,8 @@ export class CommandHandler {
     private async createConfig(): Promise<void> {
         Logger.info('createConfig command triggered');
         
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
+        const workspaceFolders = getLocalWorkspaceFolders();
+        if (workspaceFolders.length === 0) {
             showWarningMessage('No workspace folder open');
             return;
         }
@@ -347,6 +721,262 @@ export class CommandHandler {
         await this.configManager.createConfig(folderPath);
     }
 
+    /**
+     * Clear the sync manifest so the next folder upload sends every file again
+     */
+    private async clearManifest(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders) {
+            showWarningMessage('No workspace folder open');
+            return;
+        }
+
+        let cleared = 0;
+        for (const folder of workspaceFolders) {
+            const config = this.configManager.getConfig(folder.uri.fsPath);
+            if (!config) {
+                continue;
+            }
+
+            const watchers = await this.getOrCreateWatchers(folder.uri.fsPath, config);
+            watchers.forEach(watcher => watcher.clearManifest());
+            cleared++;
+        }
+
+        if (cleared > 0) {
+            showSuccessMessage('Sync manifest cleared - the next folder upload will send all files');
+        }
+    }
+
+    /**
+     * Let the user pick the active server profile
+     */
+    private async switchProfile(): Promise<void> {
+        const folderPath = await this.pickConfiguredFolder();
+        if (!folderPath) {
+            return;
+        }
+
+        const activeConfig = this.configManager.getConfig(folderPath);
+        const selected = await vscode.window.showQuickPick(
+            this.configManager.getProfiles(folderPath).map(profile => ({
+                label: `${profile === activeConfig ? '$(check) ' : ''}${profile.name}`,
+                description: `${profile.protocol}://${profile.username}@${profile.host}:${profile.port}`,
+                detail: profile.remotePath,
+                profile
+            })),
+            { placeHolder: 'Select active server profile' }
+        );
+
+        if (!selected || selected.profile === activeConfig) {
+            return;
+        }
+
+        await this.configManager.setActiveProfile(folderPath, selected.profile.name!);
+        showSuccessMessage(`Active profile: ${selected.profile.name}`);
+    }
+
+    /**
+     * Set or clear the password and passphrase kept in secure storage for a server
+     */
+    private async manageCredentials(): Promise<void> {
+        if (!credentialStore.isAvailable()) {
+            showErrorMessage('Secure storage is not available');
+            return;
+        }
+
+        const folderPath = await this.pickConfiguredFolder();
+        if (!folderPath) {
+            return;
+        }
+
+        // Every profile and mirror target has its own credentials
+        const servers = this.configManager.getProfiles(folderPath)
+            .flatMap(profile => this.configManager.getTargetConfigs(profile));
+        const server = servers.length === 1 ? servers[0] : (await vscode.window.showQuickPick(
+            servers.map(config => ({
+                label: config.name || config.host,
+                description: credentialStore.getServerId(config),
+                config
+            })),
+            { placeHolder: 'Select server' }
+        ))?.config;
+
+        if (!server) {
+            return;
+        }
+
+        const [hasPassword, hasPassphrase] = await Promise.all([
+            credentialStore.get(server, 'password'),
+            credentialStore.get(server, 'passphrase')
+        ]);
+        const actions = [
+            { label: '$(key) Set Password', description: hasPassword ? 'stored' : 'not stored', action: 'password' as const },
+            { label: '$(lock) Set Key Passphrase', description: hasPassphrase ? 'stored' : 'not stored', action: 'passphrase' as const },
+            { label: '$(trash) Clear Stored Credentials', action: 'clear' as const }
+        ];
+        const selected = await vscode.window.showQuickPick(actions, {
+            placeHolder: `Credentials for ${credentialStore.getServerId(server)}`
+        });
+
+        if (!selected) {
+            return;
+        }
+
+        if (selected.action === 'clear') {
+            await credentialStore.delete(server);
+            showSuccessMessage(`Stored credentials cleared for ${server.name || server.host}`);
+            return;
+        }
+
+        const value = await vscode.window.showInputBox({
+            prompt: `${selected.action === 'password' ? 'Password' : 'Key passphrase'} for ${server.username}@${server.host}`,
+            password: true,
+            ignoreFocusOut: true
+        });
+
+        if (value === undefined) {
+            return;
+        }
+
+        await credentialStore.store(server, selected.action, value);
+        showSuccessMessage(`${selected.action === 'password' ? 'Password' : 'Passphrase'} stored for ${server.name || server.host}`);
+    }
+
+    /**
+     * Add the remote path of a profile to the workspace as a virtual folder (ftpsync://profile/path)
+     */
+    private async mountRemoteFolder(): Promise<void> {
+        const folderPath = await this.pickConfiguredFolder();
+        if (!folderPath) {
+            return;
+        }
+
+        const profiles = this.configManager.getProfiles(folderPath);
+        const config = profiles.length === 1 ? profiles[0] : (await vscode.window.showQuickPick(
+            profiles.map(profile => ({
+                label: profile.name!,
+                description: `${profile.protocol}://${profile.username}@${profile.host}:${profile.port}`,
+                detail: profile.remotePath,
+                profile
+            })),
+            { placeHolder: 'Select server profile to add to the workspace' }
+        ))?.profile;
+
+        if (!config) {
+            return;
+        }
+
+        const uri = RemoteFileSystemProvider.toUri(config, config.remotePath);
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (folders.some(folder => folder.uri.toString() === uri.toString())) {
+            showInfoMessage(`${config.name} is already in the workspace`);
+            return;
+        }
+
+        // Adding a folder to a single-folder window restarts the extension host
+        const added = vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+            uri,
+            name: `${config.name} (remote)`
+        });
+        if (!added) {
+            showErrorMessage('Could not add the remote folder to the workspace');
+            return;
+        }
+        Logger.info(`Added ${uri.toString()} to the workspace`);
+    }
+
+    /**
+     * Remove host keys trusted in FTP Sync, e.g. after a server was reinstalled
+     */
+    private async forgetHostKey(): Promise<void> {
+        const hosts = hostKeyStore.getTrustedHosts();
+        if (hosts.length === 0) {
+            showInfoMessage('No trusted host keys stored (keys in ~/.ssh/known_hosts are managed with ssh-keygen -R)');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(hosts, {
+            placeHolder: 'Select hosts to forget',
+            canPickMany: true
+        });
+
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        for (const hostId of selected) {
+            await hostKeyStore.forget(hostId);
+        }
+        showSuccessMessage(`Forgot host key${selected.length > 1 ? 's' : ''} of ${selected.join(', ')}`);
+    }
+
+    /**
+     * Pick a workspace folder that has a configuration, asking only if there are several
+     */
+    private async pickConfiguredFolder(): Promise<string | undefined> {
+        const folders = (vscode.workspace.workspaceFolders || [])
+            .filter(folder => this.configManager.getProfiles(folder.uri.fsPath).length > 0);
+
+        if (folders.length === 0) {
+            showWarningMessage('No FTP configuration found for this workspace');
+            return undefined;
+        }
+
+        if (folders.length === 1) {
+            return folders[0].uri.fsPath;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            folders.map(f => ({
+                label: f.name,
+                description: this.configManager.getConfig(f.uri.fsPath)?.name,
+                folder: f
+            })),
+            { placeHolder: 'Select workspace folder' }
+        );
+
+        return selected?.folder.uri.fsPath;
+    }
+
+    /**
+     * Move the watcher of a folder over to its reloaded config or newly selected profile
+     */
+    private async handleConfigChange(folderPath: string): Promise<void> {
+        this.updateProfileStatus();
+
+        const config = this.configManager.getConfig(folderPath);
+        if (!config || !this.watchers.has(folderPath)) {
+            return;
+        }
+
+        try {
+            await this.getOrCreateWatchers(folderPath, config);
+        } catch (error) {
+            Logger.error(`Failed to switch watcher to ${config.name || config.host}: ${(error as Error).message}`);
+            this.statusBar.setState('error');
+            showErrorMessage(`Failed to restart watcher: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Show the active profile in the status bar when there is more than one
+     */
+    public updateProfileStatus(): void {
+        if (!this.configManager.hasMultipleProfiles()) {
+            this.statusBar.setProfile(undefined);
+            return;
+        }
+
+        const names = new Set<string>();
+        for (const [folderPath, config] of this.configManager.getAllConfigs()) {
+            if (this.configManager.getProfiles(folderPath).length > 1 && config.name) {
+                names.add(config.name);
+            }
+        }
+        this.statusBar.setProfile([...names].join(', '));
+    }
+
     /**
      * Auto-start watchers if configured
      */
@@ -371,13 +1001,14 @@ export class CommandHandler {
             return;
         }
 
-        // Get or create watcher, ensuring we reuse existing connections
-        const watcher = await this.getOrCreateWatcher(workspacePath, config);
+        // Get or create watchers for all targets, ensuring we reuse existing connections
+        const watchers = await this.getOrCreateWatchers(workspacePath, config);
 
         this.statusBar.showSyncing();
         
         try {
-            const success = await watcher.uploadFile(document.uri.fsPath);
+            const fileName = getRelativePath(workspacePath, document.uri.fsPath);
+            const success = await this.uploadToTargets(watchers, document.uri.fsPath, fileName);
             if (!success) {
                 this.statusBar.setState('error');
             }
@@ -390,15 +1021,254 @@ export class CommandHandler {
     }
 
     /**
-     * Get existing watcher or create a new one for the workspace path
+     * Check if any watcher is currently watching
+     */
+    private hasActiveWatchers(): boolean {
+        return [...this.watchers.values()].some(watchers => watchers.some(watcher => watcher.isActive()));
+    }
+
+    /**
+     * Ask what to do with a file that was changed on the server since the last sync
+     */
+    private async resolveUploadConflict(conflict: UploadConflict, watcher: FileWatcher): Promise<ConflictResolution> {
+        const overwrite = { title: 'Overwrite' };
+        const diff = { title: 'Show Diff' };
+        const download = { title: 'Download Remote' };
+        const skip = { title: 'Skip', isCloseAffordance: true };
+
+        const choice = await vscode.window.showWarningMessage(
+            `${conflict.relativePath} was changed on ${conflict.targetName} since your last sync.`,
+            {
+                modal: true,
+                detail: `Server version: ${formatFileSize(conflict.remote.size)}` +
+                    (conflict.remote.modifiedTime ? `, modified ${conflict.remote.modifiedTime.toLocaleString()}` : '') +
+                    '. Uploading now would overwrite it.'
+            },
+            overwrite, diff, download, skip
+        );
+
+        switch (choice) {
+            case overwrite:
+                return 'overwrite';
+            case download:
+                return 'download';
+            case diff:
+                // Upload or take the remote version from the diff editor
+                await this.diffWithRemote(vscode.Uri.file(conflict.localPath), watcher);
+                return 'skip';
+            default:
+                return 'skip';
+        }
+    }
+
+    /**
+     * Upload a file to every target in parallel
+     * Each target reports on its own so one failure doesn't mask the others
+     * @returns true if all targets succeeded
+     */
+    private async uploadToTargets(watchers: FileWatcher[], localPath: string, fileName: string, force = false): Promise<boolean> {
+        const results = await Promise.all(watchers.map(watcher => watcher.uploadFile(localPath, force)));
+
+        if (watchers.length > 1) {
+            const summary = watchers
+                .map((watcher, i) => `${watcher.getTargetName()} ${results[i] ? '✓' : '✗'}`)
+                .join(', ');
+            Logger.info(`Upload ${fileName}: ${summary}`);
+
+            const failed = watchers.filter((_, i) => !results[i]).map(watcher => watcher.getTargetName());
+            if (failed.length > 0 && failed.length < watchers.length) {
+                this.statusBar.showMessage(`Upload failed on ${failed.join(', ')}`, 5000);
+            }
+        }
+
+        return results.every(result => result);
+    }
+
+    /**
+     * Run a transfer for each target one after the other
+     * @param run Transfer to run, receives the target's index for progress offsets
+     */
+    private async forEachTarget<T>(
+        watchers: FileWatcher[],
+        run: (watcher: FileWatcher, index: number) => Promise<T>
+    ): Promise<Array<{ target: string; result: T }>> {
+        const results: Array<{ target: string; result: T }> = [];
+        for (let i = 0; i < watchers.length; i++) {
+            results.push({ target: watchers[i].getTargetName(), result: await run(watchers[i], i) });
+        }
+        return results;
+    }
+
+    /**
+     * Show the outcome of a folder upload, per target when mirroring
+     */
+    private reportFolderUpload(results: Array<{ target: string; result: { success: number; failed: number; skipped?: number } }>): void {
+        const describe = (result: { success: number; failed: number; skipped?: number }) =>
+            `${result.success} succeeded, ${result.failed} failed` +
+            (result.skipped !== undefined ? `, ${result.skipped} unchanged` : '');
+
+        const succeeded = results.reduce((sum, r) => sum + r.result.success, 0);
+        this.statusBar.showMessage(`Uploaded ${succeeded} files`);
+
+        if (results.length === 1) {
+            showSuccessMessage(`Upload complete: ${describe(results[0].result)}`);
+            return;
+        }
+
+        for (const { target, result } of results) {
+            Logger.info(`Folder upload to ${target}: ${describe(result)}`);
+        }
+
+        const failedTargets = results.filter(r => r.result.failed > 0).map(r => r.target);
+        if (failedTargets.length > 0) {
+            this.statusBar.setState('error');
+            showWarningMessage(`Upload complete with failures on: ${failedTargets.join(', ')} - Check output for details`);
+        } else {
+            showSuccessMessage(`Upload complete on ${results.length} targets`);
+        }
+    }
+
+    /**
+     * Start the watchers of all targets independently
+     * @returns Names of the targets that failed to start
+     */
+    private async startTargetWatchers(workspacePath: string, watchers: FileWatcher[]): Promise<string[]> {
+        const failed: string[] = [];
+
+        for (const watcher of watchers) {
+            if (watcher.isActive()) {
+                continue;
+            }
+            try {
+                await watcher.start();
+            } catch (error) {
+                Logger.error(`Failed to start watcher for ${watcher.getTargetName()}: ${(error as Error).message}`);
+                failed.push(watcher.getTargetName());
+            }
+        }
+
+        // Mirrors get the same uploads, so only the primary server is polled
+        const primary = watchers[0];
+        if (primary.isActive() && primary.getConfig().remoteWatcher.enabled && !this.remoteWatchers.has(workspacePath)) {
+            const remoteWatcher = new RemoteWatcher(workspacePath, primary);
+            remoteWatcher.onChanges((changes) => this.showRemoteChanges(changes, primary));
+            remoteWatcher.start();
+            this.remoteWatchers.set(workspacePath, remoteWatcher);
+        }
+
+        return failed;
+    }
+
+    /**
+     * Stop polling all servers for changes
+     */
+    private stopRemoteWatchers(): void {
+        for (const remoteWatcher of this.remoteWatchers.values()) {
+            remoteWatcher.stop();
+        }
+        this.remoteWatchers.clear();
+    }
+
+    /**
+     * Report files that changed on the server and offer to download the ones not pulled in yet
+     */
+    private async showRemoteChanges(changes: RemoteChange[], watcher: FileWatcher): Promise<void> {
+        const target = watcher.getTargetName();
+        for (const change of changes) {
+            Logger.info(`[${target}] Remote ${change.type}: ${change.relativePath}${change.downloaded ? ' (downloaded)' : ''}`);
+        }
+
+        const downloaded = changes.filter(change => change.downloaded);
+        if (downloaded.length > 0) {
+            this.statusBar.showMessage(`Downloaded ${downloaded.length} file(s) changed on ${target}`, 5000);
+        }
+
+        const pending = changes.filter(change => !change.downloaded);
+        if (pending.length === 0) {
+            return;
+        }
+
+        const names = pending.slice(0, 5).map(change =>
+            change.type === 'changed' ? change.relativePath : `${change.relativePath} (${change.type === 'created' ? 'new' : 'deleted'})`
+        );
+        const more = pending.length > names.length ? ` and ${pending.length - names.length} more` : '';
+        const downloadable = pending.filter(change => change.type !== 'deleted');
+        const actions = downloadable.length > 0 ? ['Download', 'Show Output'] : ['Show Output'];
+
+        const choice = await vscode.window.showInformationMessage(
+            `FTP Sync: ${pending.length} file(s) changed on ${target}: ${names.join(', ')}${more}`,
+            ...actions
+        );
+
+        if (choice === 'Show Output') {
+            Logger.show();
+        } else if (choice === 'Download') {
+            this.statusBar.showSyncing();
+            try {
+                const results = await Promise.all(downloadable.map(change => watcher.downloadFile(change.remotePath, change.localPath)));
+                const failed = results.filter(success => !success).length;
+                if (failed > 0) {
+                    showErrorMessage(`Failed to download ${failed} file(s) - Check output for details`);
+                } else {
+                    showSuccessMessage(`Downloaded ${downloadable.length} file(s) from ${target}`);
+                }
+            } finally {
+                this.statusBar.endSyncing();
+            }
+        }
+    }
+
+    /**
+     * Get the primary watcher for the workspace path
+     * Used for operations that only talk to one server (downloads, sync, browsing)
+     */
+    private async getOrCreateWatcher(workspacePath: string, config: FtpSyncConfig): Promise<FileWatcher> {
+        const watchers = await this.getOrCreateWatchers(workspacePath, config);
+        return watchers[0];
+    }
+
+    /**
+     * Get existing watchers or create new ones for the workspace path, one per target
      * Ensures connection reuse and prevents connection leaks
+     * Watchers for an outdated config (reloaded file or switched profile) are replaced,
+     * and restarted if they were watching
      */
-    private async getOrCreateWatcher(workspacePath: string, config: import('../types').FtpSyncConfig): Promise<FileWatcher> {
-        let watcher = this.watchers.get(workspacePath);
-        if (!watcher) {
-            watcher = new FileWatcher(workspacePath, config);
-            this.watchers.set(workspacePath, watcher);
+    private async getOrCreateWatchers(workspacePath: string, config: FtpSyncConfig): Promise<FileWatcher[]> {
+        let watchers = this.watchers.get(workspacePath);
+        if (watchers && watchers[0].getConfig() === config) {
+            return watchers;
+        }
+
+        const wasActive = watchers?.some(watcher => watcher.isActive()) ?? false;
+        this.remoteWatchers.get(workspacePath)?.stop();
+        this.remoteWatchers.delete(workspacePath);
+        if (watchers) {
+            for (const watcher of watchers) {
+                await watcher.dispose();
+            }
+        }
+
+        watchers = this.configManager.getTargetConfigs(config).map(target => {
+            const watcher = new FileWatcher(workspacePath, target);
+            watcher.onChange((event) => {
+                this.statusBar.showSyncing();
+                Logger.info(event.oldRelativePath
+                    ? `${event.type}: ${event.oldRelativePath} → ${event.relativePath}`
+                    : `${event.type}: ${event.relativePath}`);
+                setTimeout(() => this.statusBar.endSyncing(), 500);
+            });
+            watcher.onError((error) => {
+                Logger.error(`[${watcher.getTargetName()}] ${error.message}`);
+                this.statusBar.setState('error');
+            });
+            watcher.onConflict((conflict) => this.resolveUploadConflict(conflict, watcher));
+            return watcher;
+        });
+        this.watchers.set(workspacePath, watchers);
+
+        if (wasActive && config.watcher.enabled) {
+            await this.startTargetWatchers(workspacePath, watchers);
         }
-        return watcher;
+        return watchers;
     }
 }
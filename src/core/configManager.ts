@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { FtpSyncConfig, mergeWithDefaults } from '../types';
-import { Logger, normalizePath, showInfoMessage, showSuccessMessage, showErrorMessage } from '../utils';
+import { FtpSyncConfig, mergeWithDefaults, usesImplicitTls } from '../types';
+import { applySshConfig } from '../clients';
+import { Logger, normalizePath, getLocalWorkspaceFolders, showInfoMessage, showSuccessMessage, showErrorMessage } from '../utils';
+import { credentialStore } from './credentialStore';
 
 const CONFIG_FILENAME = '.ftpsync.json';
 const CONFIG_DIR = '.vscode';
@@ -11,11 +13,20 @@ const CONFIG_DIR = '.vscode';
  * Manages FTP Sync configuration files
  */
 export class ConfigManager {
-    private configs: Map<string, FtpSyncConfig> = new Map();
+    private configs: Map<string, FtpSyncConfig> = new Map(); // Active profile per workspace folder
+    private profiles: Map<string, FtpSyncConfig[]> = new Map(); // All profiles per workspace folder
+    private targetConfigs: WeakMap<FtpSyncConfig, FtpSyncConfig[]> = new WeakMap(); // Primary + mirror targets per profile
     private configWatchers: vscode.FileSystemWatcher[] = [];
     private watcherDisposables: vscode.Disposable[] = [];
+    private migrationOffered: Set<string> = new Set(); // Folders already asked to move plaintext secrets
+    private _onDidChangeConfig = new vscode.EventEmitter<string>();
+    // Fires with the workspace folder path when its active config is reloaded or another profile is selected
+    readonly onDidChangeConfig: vscode.Event<string> = this._onDidChangeConfig.event;
 
-    constructor() {}
+    /**
+     * @param workspaceState Optional storage to remember the selected profile per folder
+     */
+    constructor(private workspaceState?: vscode.Memento) {}
 
     /**
      * Initialize config manager and load all configurations
@@ -33,6 +44,7 @@ export class ConfigManager {
         this.watcherDisposables = [];
         this.configWatchers.forEach(w => w.dispose());
         this.configWatchers = [];
+        this._onDidChangeConfig.dispose();
     }
 
     /**
@@ -46,12 +58,7 @@ export class ConfigManager {
      * Load all config files from workspace folders
      */
     private async loadAllConfigs(): Promise<void> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            return;
-        }
-
-        for (const folder of workspaceFolders) {
+        for (const folder of getLocalWorkspaceFolders()) {
             await this.loadConfigForFolder(folder.uri.fsPath);
         }
     }
@@ -72,17 +79,49 @@ export class ConfigManager {
             // Parse JSONC (JSON with Comments) by stripping comments
             const jsonContent = this.stripJsonComments(content);
             const rawConfig = JSON.parse(jsonContent);
-            const config = mergeWithDefaults(rawConfig);
-            
-            // Resolve local path relative to workspace folder
-            if (config.localPath && !path.isAbsolute(config.localPath)) {
-                config.localPath = path.join(folderPath, config.localPath);
-            } else if (!config.localPath) {
-                config.localPath = folderPath;
+            const profiles = this.parseProfiles(rawConfig).map(rawProfile => {
+                const merged = mergeWithDefaults(rawProfile);
+                
+                // Resolve local path relative to workspace folder
+                if (merged.localPath && !path.isAbsolute(merged.localPath)) {
+                    merged.localPath = path.join(folderPath, merged.localPath);
+                } else if (!merged.localPath) {
+                    merged.localPath = folderPath;
+                }
+
+                // Fill in host, user and key from ~/.ssh/config aliases, after targets
+                // inherited the profile's explicit fields only
+                const config = applySshConfig(merged);
+                const targets = this.resolveTargets(merged).map(applySshConfig);
+                this.targetConfigs.set(config, [config, ...targets]);
+                return config;
+            });
+
+            if (profiles.length === 0) {
+                throw new Error('No server profiles defined');
             }
 
+            this.profiles.set(folderPath, profiles);
+
+            // Keep the previously selected profile if it still exists
+            const storedName = this.workspaceState?.get<string>(this.getProfileStateKey(folderPath));
+            const defaultName = Array.isArray(rawConfig) ? undefined : rawConfig.activeProfile;
+            const config = profiles.find(p => p.name === storedName)
+                || profiles.find(p => p.name === defaultName)
+                || profiles[0];
+
+            const isReload = this.configs.has(folderPath);
             this.configs.set(folderPath, config);
-            Logger.info(`Loaded configuration from ${configPath}`);
+            if (isReload) {
+                this._onDidChangeConfig.fire(folderPath);
+            }
+            Logger.info(`Loaded configuration from ${configPath}` +
+                (profiles.length > 1 ? ` (${profiles.length} profiles, active: ${config.name})` : ''));
+
+            if (this.hasPlaintextSecrets(profiles)) {
+                // Don't block loading on the user's answer
+                void this.offerCredentialMigration(folderPath);
+            }
             
             return config;
         } catch (error) {
@@ -92,6 +131,179 @@ export class ConfigManager {
         }
     }
 
+    /**
+     * Split a raw config into its profiles
+     * Supports a single object, an array of profiles, or an object with a
+     * "profiles" array whose entries inherit the top-level settings
+     */
+    private parseProfiles(rawConfig: unknown): Partial<FtpSyncConfig>[] {
+        let profiles: Partial<FtpSyncConfig>[];
+
+        if (Array.isArray(rawConfig)) {
+            profiles = rawConfig;
+        } else if (rawConfig && typeof rawConfig === 'object' && Array.isArray((rawConfig as { profiles?: unknown }).profiles)) {
+            const { profiles: rawProfiles, ...shared } = rawConfig as Record<string, unknown> & {
+                profiles: Partial<FtpSyncConfig>[];
+            };
+            delete shared.activeProfile;
+            profiles = rawProfiles.map(profile => ({
+                ...shared,
+                ...profile,
+                watcher: { ...(shared as Partial<FtpSyncConfig>).watcher, ...profile.watcher } as FtpSyncConfig['watcher'],
+                remoteWatcher: {
+                    ...(shared as Partial<FtpSyncConfig>).remoteWatcher,
+                    ...profile.remoteWatcher
+                } as FtpSyncConfig['remoteWatcher']
+            }));
+        } else {
+            profiles = [rawConfig as Partial<FtpSyncConfig>];
+        }
+
+        // Every profile needs a unique name so it can be selected
+        const usedNames = new Set<string>();
+        return profiles.map((profile, index) => {
+            let name = profile.name || profile.host || profile.sshConfigHost || `Profile ${index + 1}`;
+            if (usedNames.has(name)) {
+                name = `${name} (${index + 1})`;
+            }
+            usedNames.add(name);
+            return { ...profile, name };
+        });
+    }
+
+    /**
+     * Build the configs of a profile's mirror targets
+     * Each target inherits the profile's settings and overrides the connection details
+     */
+    private resolveTargets(config: FtpSyncConfig): FtpSyncConfig[] {
+        return (config.targets || []).map((target, index) => {
+            // Keep the profile's port unless the target switches protocol
+            // A target with its own SSH config alias gets host and port from there
+            const sameProtocol = (target.protocol ?? config.protocol) === config.protocol
+                && usesImplicitTls({ ...config, ...target }) === usesImplicitTls(config);
+            const ownAlias = !!target.sshConfigHost && target.sshConfigHost !== config.sshConfigHost;
+            return mergeWithDefaults({
+                ...config,
+                ...target,
+                host: ownAlias ? target.host : target.host ?? config.host,
+                port: target.port ?? (sameProtocol && !ownAlias ? config.port : undefined),
+                name: target.name || target.host || target.sshConfigHost || `${config.name} mirror ${index + 1}`,
+                targets: undefined
+            });
+        });
+    }
+
+    /**
+     * Check if any profile or mirror target has a password or passphrase in the file
+     */
+    private hasPlaintextSecrets(profiles: FtpSyncConfig[]): boolean {
+        return profiles
+            .flatMap(profile => this.getTargetConfigs(profile))
+            .some(config => !!config.password || !!config.passphrase);
+    }
+
+    /**
+     * Ask once per session whether plaintext secrets should move to secure storage
+     */
+    private async offerCredentialMigration(folderPath: string): Promise<void> {
+        if (!credentialStore.isAvailable() || this.migrationOffered.has(folderPath)) {
+            return;
+        }
+        this.migrationOffered.add(folderPath);
+
+        const choice = await vscode.window.showWarningMessage(
+            `FTP Sync: ${path.basename(folderPath)}/${CONFIG_DIR}/${CONFIG_FILENAME} contains plaintext passwords. ` +
+            'Move them to secure storage and remove them from the file?',
+            'Move to Secure Storage', 'Not Now'
+        );
+
+        if (choice === 'Move to Secure Storage') {
+            await this.migrateCredentials(folderPath);
+        }
+    }
+
+    /**
+     * Move plaintext passwords and passphrases into secure storage and remove them from the file
+     */
+    public async migrateCredentials(folderPath: string): Promise<void> {
+        const configPath = this.getConfigPath(folderPath);
+
+        try {
+            const content = fs.readFileSync(configPath, 'utf-8');
+            const updated = ConfigManager.removePlaintextSecrets(content);
+
+            // Verify the result before storing anything or touching the file
+            const remaining = this.parseProfiles(JSON.parse(this.stripJsonComments(updated)))
+                .flatMap(profile => [profile, ...(profile.targets || [])])
+                .some(profile => !!profile.password || !!profile.passphrase);
+            if (remaining) {
+                throw new Error('Could not remove all passwords from the file automatically');
+            }
+
+            let moved = 0;
+            for (const profile of this.getProfiles(folderPath)) {
+                for (const target of this.getTargetConfigs(profile)) {
+                    if (target.password) {
+                        await credentialStore.store(target, 'password', target.password);
+                        moved++;
+                    }
+                    if (target.passphrase) {
+                        await credentialStore.store(target, 'passphrase', target.passphrase);
+                        moved++;
+                    }
+                }
+            }
+
+            // The config watcher picks up the change and reloads
+            fs.writeFileSync(configPath, updated, 'utf-8');
+            Logger.info(`Moved ${moved} credentials from ${configPath} to secure storage`);
+            showSuccessMessage('FTP Sync: Passwords moved to secure storage', 5000);
+        } catch (error) {
+            Logger.error(`Failed to migrate credentials: ${(error as Error).message}`);
+            showErrorMessage(`FTP Sync: Failed to move passwords - ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Remove non-empty "password" and "passphrase" properties from JSONC content
+     * Keeps comments and formatting of everything else
+     */
+    public static removePlaintextSecrets(content: string): string {
+        const property = /"(?:password|passphrase)"\s*:\s*"(?:[^"\\]|\\.)+"/g;
+        const matches = [...content.matchAll(property)].reverse();
+        let result = content;
+
+        for (const match of matches) {
+            let start = match.index!;
+            let end = start + match[0].length;
+            const lineStart = result.lastIndexOf('\n', start - 1) + 1;
+
+            // Skip examples in comments
+            if (result.slice(lineStart, start).includes('//')) {
+                continue;
+            }
+
+            // Take the separating comma along, dropping the whole line if nothing else is on it
+            const trailingComma = /^\s*,[ \t]*/.exec(result.slice(end));
+            const leadingComma = /,\s*$/.exec(result.slice(0, start));
+            if (trailingComma) {
+                end += trailingComma[0].length;
+                let lineEnd = result.indexOf('\n', end);
+                lineEnd = lineEnd === -1 ? result.length : lineEnd + 1;
+                if (result.slice(lineStart, start).trim() === '' && result.slice(end, lineEnd).trim() === '') {
+                    start = lineStart;
+                    end = lineEnd;
+                }
+            } else if (leadingComma) {
+                start = leadingComma.index;
+            }
+
+            result = result.slice(0, start) + result.slice(end);
+        }
+
+        return result;
+    }
+
     /**
      * Strip comments from JSONC content
      * Supports single-line (//) and multi-line comments
@@ -168,12 +380,7 @@ export class ConfigManager {
      * Setup file watchers for config files
      */
     private setupConfigWatchers(): void {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            return;
-        }
-
-        for (const folder of workspaceFolders) {
+        for (const folder of getLocalWorkspaceFolders()) {
             const pattern = new vscode.RelativePattern(folder, `${CONFIG_DIR}/${CONFIG_FILENAME}`);
             const watcher = vscode.workspace.createFileSystemWatcher(pattern);
 
@@ -198,6 +405,7 @@ export class ConfigManager {
                 watcher.onDidDelete((uri) => {
                     Logger.info(`Config file deleted: ${uri.fsPath}`);
                     this.configs.delete(folder.uri.fsPath);
+                    this.profiles.delete(folder.uri.fsPath);
                     vscode.commands.executeCommand('setContext', 'ftpSync.hasConfig', this.hasConfigs());
                 })
             );
@@ -224,6 +432,53 @@ export class ConfigManager {
         return this.configs.get(workspaceFolder.uri.fsPath);
     }
 
+    /**
+     * Get all profiles for a workspace folder
+     */
+    public getProfiles(folderPath: string): FtpSyncConfig[] {
+        return this.profiles.get(folderPath) || [];
+    }
+
+    /**
+     * Get every server a profile uploads to: the profile itself followed by its mirror targets
+     */
+    public getTargetConfigs(config: FtpSyncConfig): FtpSyncConfig[] {
+        return this.targetConfigs.get(config) || [config];
+    }
+
+    /**
+     * Check if any workspace folder defines more than one profile
+     */
+    public hasMultipleProfiles(): boolean {
+        return [...this.profiles.values()].some(profiles => profiles.length > 1);
+    }
+
+    /**
+     * Switch the active profile of a workspace folder
+     */
+    public async setActiveProfile(folderPath: string, name: string): Promise<void> {
+        const profile = this.getProfiles(folderPath).find(p => p.name === name);
+        if (!profile) {
+            throw new Error(`Unknown profile: ${name}`);
+        }
+
+        if (this.configs.get(folderPath) === profile) {
+            return;
+        }
+
+        this.configs.set(folderPath, profile);
+        await this.workspaceState?.update(this.getProfileStateKey(folderPath), name);
+        Logger.info(`Active profile for ${folderPath}: ${name}`);
+        this._onDidChangeConfig.fire(folderPath);
+    }
+
+    /**
+     * Key used to remember the active profile in workspace state
+     */
+    private getProfileStateKey(folderPath: string): string {
+        return `ftpSync.activeProfile:${folderPath}`;
+    }
+
     /**
      * Get all loaded configurations
      */
@@ -277,17 +532,26 @@ export class ConfigManager {
     // ─────────────────────────────────────────────────────────────────────────────
 
     // Anzeigename für diese Verbindung (frei wählbar)
+    // Mehrere Server (z.B. Dev/Staging/Production)? Statt einzelner Werte
+    // ein "profiles"-Array anlegen - jedes Profil erbt die Einstellungen hier
     "name": "My Server",
 
     // Protokoll: "ftp" oder "sftp" (SFTP ist sicherer und empfohlen)
     "protocol": "sftp",
 
     // Hostname oder IP-Adresse des Servers
+    // Dieselben Uploads zusätzlich auf Mirror-Server? "targets"-Array mit den
+    // abweichenden Werten anlegen, z.B. [{ "host": "web2.example.com" }]
     "host": "example.com",
 
     // Port-Nummer (Standard: 21 für FTP, 22 für SFTP)
     "port": 22,
 
+    // Server schon in ~/.ssh/config eingetragen? Statt host/port/username
+    // reicht der Alias, z.B. "sshConfigHost": "webserver" (nur SFTP)
+    // HostName, Port, User, IdentityFile und ProxyJump kommen dann von dort,
+    // hier gesetzte Werte haben Vorrang
+
     // ─────────────────────────────────────────────────────────────────────────────
     // AUTHENTIFIZIERUNG
     // ─────────────────────────────────────────────────────────────────────────────
@@ -299,6 +563,9 @@ export class ConfigManager {
     // OPTION 1: Passwort-Authentifizierung (einfach, aber weniger sicher)
     // ═══════════════════════════════════════════════════════════════════════════
     // Passwort für die Anmeldung
+    // Leer lassen: Beim ersten Verbinden wird danach gefragt und das Passwort
+    // sicher im Schlüsselbund gespeichert statt in dieser Datei
+    // (ändern/löschen mit "FTP Sync: Manage Stored Credentials")
     "password": "",
 
     // ═══════════════════════════════════════════════════════════════════════════
@@ -316,9 +583,20 @@ export class ConfigManager {
     "privateKeyPath": "",
 
     // Passphrase für den SSH-Key (falls der Key passwortgeschützt ist)
-    // Leer lassen wenn der Key keine Passphrase hat
+    // Leer lassen: Bei einem verschlüsselten Key wird beim Verbinden danach
+    // gefragt (siehe Einstellung "ftpSync.rememberCredentials")
     "passphrase": "",
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // OPTION 3: SSH-Agent und Zwei-Faktor-Anmeldung (nur SFTP)
+    // ═══════════════════════════════════════════════════════════════════════════
+    // Ein laufender ssh-agent (SSH_AUTH_SOCK) wird automatisch verwendet
+    // Anderer Socket: "agent": "/pfad/zum/socket", deaktivieren: "agent": false
+    //
+    // Keyboard-Interactive versuchen (z.B. Einmal-Code bei 2FA)
+    // Die Fragen des Servers erscheinen als Eingabefelder in VS Code
+    "tryKeyboard": false,
+
     // ─────────────────────────────────────────────────────────────────────────────
     // PFAD-EINSTELLUNGEN
     // ─────────────────────────────────────────────────────────────────────────────
@@ -354,7 +632,26 @@ export class ConfigManager {
 
         // Gelöschte Dateien auch auf dem Server löschen?
         // VORSICHT: Kann zu Datenverlust führen!
-        "autoDelete": false
+        "autoDelete": false,
+
+        // Beim Start des Watchers Dateien hochladen, die seit dem letzten Sync geändert wurden?
+        "uploadChangedOnStart": false
+    },
+
+    // Server regelmäßig auf Änderungen prüfen, die nicht von hier kommen?
+    // Läuft zusammen mit dem File Watcher
+    "remoteWatcher": {
+        "enabled": false,
+
+        // Abstand zwischen zwei Prüfungen in Sekunden
+        "interval": 60,
+
+        // Nur diese Unterordner von remotePath prüfen (leer = alles)
+        // "paths": ["uploads", "config"],
+
+        // "notify" = Änderungen anzeigen, "download" = automatisch herunterladen
+        // Lokal bearbeitete Dateien werden nie automatisch überschrieben
+        "action": "notify"
     },
 
     // ─────────────────────────────────────────────────────────────────────────────
@@ -373,6 +670,22 @@ export class ConfigManager {
     // .gitignore Regeln zusätzlich anwenden?
     "useGitIgnore": true,
 
+    // Rechte nach jedem Upload setzen (chmod), Pfade relativ zu remotePath
+    // Das erste passende Pattern gewinnt, Patterns mit "/" am Ende gelten für Ordner
+    // "permissions": {
+    //     "cgi-bin/*.sh": "750",
+    //     "*": "644",
+    //     "*/": "755"
+    // },
+
+    // Unveränderte Dateien beim Ordner-Upload überspringen?
+    // Der Stand des letzten Syncs wird in .vscode/.ftpsync-manifest.json gespeichert
+    "skipUnchanged": true,
+
+    // Vor dem Hochladen prüfen, ob die Datei seit dem letzten Sync auf dem Server geändert wurde?
+    // Dann wird gefragt: Überschreiben, Diff anzeigen, Remote-Version laden oder überspringen
+    "detectConflicts": true,
+
     // ─────────────────────────────────────────────────────────────────────────────
     // ERWEITERTE EINSTELLUNGEN
     // ─────────────────────────────────────────────────────────────────────────────
@@ -380,9 +693,28 @@ export class ConfigManager {
     // Verbindungs-Timeout in Millisekunden (Standard: 30000 = 30 Sekunden)
     // "timeout": 30000,
 
+    // Parallele Übertragungen, jede über eine eigene Verbindung (Standard: 3)
+    // "concurrency": 3,
+
+    // Maximale Verbindungen zu einem Server, über alle Profile hinweg (Standard: 4)
+    // Lehnt der Server weitere Verbindungen ab (421/530), werden automatisch weniger genutzt
+    // "maxConnectionsPerHost": 4,
+
+    // Dateien ab dieser Größe (Bytes) setzen abgebrochene Übertragungen fort (Standard: 10 MB, 0 = nie)
+    // "resumeThreshold": 10485760,
+
     // FTP über TLS (FTPS) verwenden? (nur für protocol: "ftp")
     // "secure": false,
 
+    // TLS-Optionen für FTPS, z.B. für selbstsignierte Zertifikate:
+    // "secureOptions": {
+    //     "mode": "explicit",           // oder "implicit" (Port 990)
+    //     "caPath": "~/certs/ca.pem",   // eigene CA
+    //     "fingerprint": "AB:CD:...",   // SHA-256 Fingerprint des Server-Zertifikats
+    //     "certPath": "~/certs/client.pem",
+    //     "keyPath": "~/certs/client.key"
+    // },
+
     // Debug-Modus für ausführliche Logs aktivieren?
     "debug": false
 }`;
@@ -1,21 +1,31 @@
 import { FtpSyncConfig } from '../types';
-import { RemoteClient, createClient } from '../clients';
+import { RemoteClient, AuthenticationError, ClientFactory, createClient } from '../clients';
 import { Logger } from '../utils';
+import { credentialStore } from './credentialStore';
+import { hostKeyStore } from './hostKeyStore';
 
 /**
  * Connection health states
  */
 export type ConnectionHealth = 'healthy' | 'degraded' | 'disconnected' | 'failed' | 'rate-limited';
 
+/**
+ * Connection slots of one server
+ */
+interface HostSlots {
+    active: number;
+    limit?: number; // Lowered after the server refused another connection
+    waiting: Array<{ max: number; resolve: () => void; reject: (error: Error) => void }>;
+    rateLimitedUntil: number; // Timestamp when rate limiting expires
+}
+
 /**
  * Global connection tracking to prevent exceeding server limits
+ * Slots are counted per server, so all pools connecting to the same host share its maximum
  */
 class GlobalConnectionManager {
     private static instance: GlobalConnectionManager;
-    private activeConnections = 0;
-    private maxGlobalConnections = 2; // Conservative limit to avoid server rejection
-    private connectionQueue: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
-    private rateLimitedUntil = 0; // Timestamp when rate limiting expires
+    private hosts: Map<string, HostSlots> = new Map();
     private rateLimitDelay = 60000; // Wait 60 seconds after 530 error
 
     public static getInstance(): GlobalConnectionManager {
@@ -25,81 +35,139 @@ class GlobalConnectionManager {
         return GlobalConnectionManager.instance;
     }
 
+    /**
+     * Get the slots of a server, creating them on first use
+     */
+    private getHost(host: string): HostSlots {
+        let slots = this.hosts.get(host);
+        if (!slots) {
+            slots = { active: 0, waiting: [], rateLimitedUntil: 0 };
+            this.hosts.set(host, slots);
+        }
+        return slots;
+    }
+
+    /**
+     * Get how many connections to a server are allowed right now
+     * @param max Configured maximum of the caller
+     */
+    public getLimit(host: string, max: number): number {
+        const limit = this.getHost(host).limit;
+        return limit === undefined ? max : Math.min(max, limit);
+    }
+
+    /**
+     * Lower the number of connections to a server after it refused another one
+     * The configured maximum applies again once all connections to the server are closed
+     */
+    public reduceLimit(host: string, count: number): void {
+        const slots = this.getHost(host);
+        const limit = Math.max(1, count);
+        if (slots.limit === undefined || limit < slots.limit) {
+            slots.limit = limit;
+            Logger.warn(`${host} refused another connection, using at most ${limit} from now on`);
+        }
+    }
+
     /**
      * Check if we hit a rate limit (530 error)
      */
-    public setRateLimited(): void {
-        this.rateLimitedUntil = Date.now() + this.rateLimitDelay;
-        Logger.warn(`Rate limited by server. Waiting ${this.rateLimitDelay / 1000} seconds before retrying...`);
+    public setRateLimited(host: string): void {
+        this.getHost(host).rateLimitedUntil = Date.now() + this.rateLimitDelay;
+        Logger.warn(`Rate limited by ${host}. Waiting ${this.rateLimitDelay / 1000} seconds before retrying...`);
     }
 
     /**
      * Check if still rate limited
      */
-    public isRateLimited(): boolean {
-        return Date.now() < this.rateLimitedUntil;
+    public isRateLimited(host: string): boolean {
+        return Date.now() < this.getHost(host).rateLimitedUntil;
     }
 
     /**
      * Get remaining rate limit time in ms
      */
-    public getRateLimitRemaining(): number {
-        return Math.max(0, this.rateLimitedUntil - Date.now());
+    public getRateLimitRemaining(host: string): number {
+        return Math.max(0, this.getHost(host).rateLimitedUntil - Date.now());
+    }
+
+    /**
+     * Take a connection slot if one is free, without waiting
+     * @param max Configured maximum of the caller
+     */
+    public tryAcquireSlot(host: string, max: number): boolean {
+        const slots = this.getHost(host);
+        const limit = this.getLimit(host, max);
+        if (this.isRateLimited(host) || slots.active >= limit) {
+            return false;
+        }
+
+        slots.active++;
+        Logger.debug(`Connection slot acquired for ${host} (${slots.active}/${limit})`);
+        return true;
     }
 
     /**
      * Request a connection slot
+     * @param max Configured maximum of the caller
      */
-    public async acquireSlot(): Promise<void> {
+    public async acquireSlot(host: string, max: number): Promise<void> {
         // Wait if rate limited
-        if (this.isRateLimited()) {
-            const waitTime = this.getRateLimitRemaining();
+        if (this.isRateLimited(host)) {
+            const waitTime = this.getRateLimitRemaining(host);
             Logger.info(`Waiting ${Math.ceil(waitTime / 1000)}s due to server rate limit...`);
             await new Promise(resolve => setTimeout(resolve, waitTime));
         }
 
-        if (this.activeConnections < this.maxGlobalConnections) {
-            this.activeConnections++;
-            Logger.debug(`Connection slot acquired (${this.activeConnections}/${this.maxGlobalConnections})`);
+        if (this.tryAcquireSlot(host, max)) {
             return;
         }
 
         // Wait for a slot to become available
-        Logger.debug(`Waiting for connection slot (${this.activeConnections}/${this.maxGlobalConnections})...`);
+        const slots = this.getHost(host);
+        Logger.debug(`Waiting for connection slot for ${host} (${slots.active}/${this.getLimit(host, max)})...`);
         return new Promise((resolve, reject) => {
             const timeout = setTimeout(() => {
-                const index = this.connectionQueue.findIndex(q => q.resolve === resolve);
+                const index = slots.waiting.findIndex(q => q.resolve === waiter.resolve);
                 if (index !== -1) {
-                    this.connectionQueue.splice(index, 1);
+                    slots.waiting.splice(index, 1);
                 }
                 reject(new Error('Timeout waiting for connection slot'));
             }, 120000); // 2 minute timeout
 
-            this.connectionQueue.push({
+            const waiter = {
+                max,
                 resolve: () => {
                     clearTimeout(timeout);
-                    this.activeConnections++;
-                    Logger.debug(`Connection slot acquired from queue (${this.activeConnections}/${this.maxGlobalConnections})`);
+                    slots.active++;
+                    Logger.debug(`Connection slot acquired from queue for ${host} (${slots.active}/${this.getLimit(host, max)})`);
                     resolve();
                 },
                 reject: (error: Error) => {
                     clearTimeout(timeout);
                     reject(error);
                 }
-            });
+            };
+            slots.waiting.push(waiter);
         });
     }
 
     /**
      * Release a connection slot
      */
-    public releaseSlot(): void {
-        this.activeConnections = Math.max(0, this.activeConnections - 1);
-        Logger.debug(`Connection slot released (${this.activeConnections}/${this.maxGlobalConnections})`);
+    public releaseSlot(host: string): void {
+        const slots = this.getHost(host);
+        slots.active = Math.max(0, slots.active - 1);
+        Logger.debug(`Connection slot released for ${host} (${slots.active} active)`);
+
+        // Start over with the configured maximum once the server has no connections left
+        if (slots.active === 0 && slots.waiting.length === 0) {
+            slots.limit = undefined;
+        }
 
         // Process waiting connections
-        if (this.connectionQueue.length > 0 && this.activeConnections < this.maxGlobalConnections) {
-            const next = this.connectionQueue.shift();
+        while (slots.waiting.length > 0 && slots.active < this.getLimit(host, slots.waiting[0].max)) {
+            const next = slots.waiting.shift();
             if (next) {
                 next.resolve();
             }
@@ -108,19 +176,23 @@ class GlobalConnectionManager {
 
     /**
      * Get current connection count
+     * @param host Only count connections to this server
      */
-    public getActiveCount(): number {
-        return this.activeConnections;
+    public getActiveCount(host?: string): number {
+        if (host) {
+            return this.getHost(host).active;
+        }
+        return [...this.hosts.values()].reduce((sum, slots) => sum + slots.active, 0);
     }
 
     /**
      * Reset all connections (for cleanup)
      */
     public reset(): void {
-        this.activeConnections = 0;
-        this.rateLimitedUntil = 0;
-        this.connectionQueue.forEach(q => q.reject(new Error('Connection manager reset')));
-        this.connectionQueue = [];
+        for (const slots of this.hosts.values()) {
+            slots.waiting.forEach(q => q.reject(new Error('Connection manager reset')));
+        }
+        this.hosts.clear();
     }
 }
 
@@ -128,200 +200,282 @@ class GlobalConnectionManager {
 export const globalConnectionManager = GlobalConnectionManager.getInstance();
 
 /**
- * Manages connection pooling with automatic reconnection and health monitoring
+ * A connection of the pool and whether an operation is using it
+ */
+interface PooledConnection {
+    client: RemoteClient;
+    busy: boolean;
+    lastActivity: number;
+}
+
+/**
+ * Manages a pool of connections to one server with automatic reconnection and health monitoring
+ * Opens up to `concurrency` connections (capped by `maxConnectionsPerHost`) so operations run
+ * in parallel, each on a connection of its own
  */
 export class ConnectionPool {
     private config: FtpSyncConfig;
-    private client: RemoteClient | null = null;
+    private clientFactory: ClientFactory;
+    private host: string;
+    private maxConnections: number;
+    private connections: PooledConnection[] = [];
+    private opening: Promise<PooledConnection> | null = null;
+    private generation = 0; // Counts dispose() calls, connections opened across one are closed again
+    private waiting: Array<{ wake: () => void; reject: (error: Error) => void }> = [];
     private health: ConnectionHealth = 'disconnected';
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 5;
     private reconnectDelay = 1000; // Start with 1 second
     private maxReconnectDelay = 30000; // Max 30 seconds
-    private lastActivity = Date.now();
     private healthCheckInterval: NodeJS.Timeout | null = null;
-    private operationTimeout = 30000; // 30 seconds per operation
+    private operationTimeout = 30000; // 30 seconds per operation without progress
     private keepAliveInterval = 60000; // 60 seconds
-    private isReconnecting = false;
-    private pendingOperations = 0;
-    private hasSlot = false;
-    
-    // Mutex for serializing FTP operations (basic-ftp only supports one operation at a time)
-    private operationMutex: Promise<void> = Promise.resolve();
-    private operationQueue: Array<{
-        resolve: () => void;
-        reject: (error: Error) => void;
-    }> = [];
-
-    constructor(config: FtpSyncConfig) {
+
+    /**
+     * @param clientFactory Creates the clients of the pool's connections
+     */
+    constructor(config: FtpSyncConfig, clientFactory: ClientFactory = createClient) {
         this.config = config;
+        this.clientFactory = clientFactory;
+        this.host = `${config.host}:${config.port || ''}`;
+        this.maxConnections = Math.max(1, Math.min(
+            config.concurrency || 3,
+            config.maxConnectionsPerHost || 4
+        ));
         this.operationTimeout = config.timeout || 30000;
     }
 
     /**
-     * Acquire the operation mutex - ensures only one FTP operation runs at a time
-     * basic-ftp throws "User launched a task while another one is still running" otherwise
+     * Get a healthy connection, connecting if necessary
+     * The connection stays in the pool, use executeWithRetry() to run operations on it
      */
-    private async acquireOperationLock(): Promise<() => void> {
-        // Create a new promise that will be resolved when it's this operation's turn
-        let releaseLock: () => void;
-        
-        const waitForTurn = new Promise<void>((resolve) => {
-            releaseLock = resolve;
-        });
+    public async getConnection(): Promise<RemoteClient> {
+        const connection = await this.acquire();
+        this.release(connection);
+        return connection.client;
+    }
 
-        // Chain onto the existing mutex
-        const previousMutex = this.operationMutex;
-        this.operationMutex = previousMutex.then(() => waitForTurn);
+    /**
+     * Reserve a connection for one operation
+     * Uses an idle connection, opens another one while below the limit,
+     * or waits until an operation releases its connection
+     */
+    private async acquire(): Promise<PooledConnection> {
+        this.removeClosed();
 
-        // Wait for previous operations to complete
-        await previousMutex;
+        const idle = this.connections.find(c => !c.busy);
+        if (idle) {
+            idle.busy = true;
+            return idle;
+        }
 
-        // Return the release function
-        return () => {
-            releaseLock();
-        };
+        // Connect one at a time, so a missing password is only asked for once
+        if (this.opening) {
+            await this.opening.catch(() => undefined);
+            return this.acquire();
+        }
+
+        if (this.connections.length === 0) {
+            return this.open(true);
+        }
+
+        const limit = globalConnectionManager.getLimit(this.host, this.maxConnections);
+        if (this.connections.length < limit && globalConnectionManager.tryAcquireSlot(this.host, this.maxConnections)) {
+            try {
+                return await this.open(false);
+            } catch (error) {
+                // The connections we already have keep working
+                Logger.debug(`Could not open another connection to ${this.config.host}: ${(error as Error).message}`);
+            }
+        }
+
+        return this.waitForConnection();
     }
 
     /**
-     * Get a healthy connection, reconnecting if necessary
+     * Give a connection back to the pool after an operation
      */
-    public async getConnection(): Promise<RemoteClient> {
-        // Check if client is actually connected (not just marked as healthy)
-        if (this.client && this.health === 'healthy') {
-            // Verify the client is actually still connected
-            if (this.client.isConnected()) {
-                this.lastActivity = Date.now();
-                return this.client;
-            } else {
-                // Client reports disconnected, reset state
+    private release(connection: PooledConnection): void {
+        connection.busy = false;
+        connection.lastActivity = Date.now();
+        this.notifyWaiting();
+    }
+
+    /**
+     * Close a connection that failed and remove it from the pool
+     */
+    private discard(connection: PooledConnection): void {
+        const index = this.connections.indexOf(connection);
+        if (index === -1) {
+            return;
+        }
+
+        this.connections.splice(index, 1);
+        globalConnectionManager.releaseSlot(this.host);
+        connection.client.disconnect().catch(() => undefined);
+        if (this.connections.length === 0 && this.health === 'healthy') {
+            this.health = 'disconnected';
+        }
+        this.notifyWaiting();
+    }
+
+    /**
+     * Drop idle connections the server has closed
+     */
+    private removeClosed(): void {
+        for (const connection of [...this.connections]) {
+            if (!connection.busy && !connection.client.isConnected()) {
                 Logger.debug('Client reports disconnected, reconnecting...');
-                this.health = 'disconnected';
-                this.client = null;
-                if (this.hasSlot) {
-                    globalConnectionManager.releaseSlot();
-                    this.hasSlot = false;
-                }
+                this.discard(connection);
             }
         }
+    }
+
+    /**
+     * Wait until another operation releases a connection or one can be opened
+     */
+    private waitForConnection(): Promise<PooledConnection> {
+        return new Promise((resolve, reject) => {
+            const waiter = {
+                wake: () => {
+                    clearTimeout(timeout);
+                    this.acquire().then(resolve, reject);
+                },
+                reject: (error: Error) => {
+                    clearTimeout(timeout);
+                    reject(error);
+                }
+            };
+            const timeout = setTimeout(() => {
+                const index = this.waiting.indexOf(waiter);
+                if (index !== -1) {
+                    this.waiting.splice(index, 1);
+                }
+                reject(new Error('Timeout waiting for a free connection'));
+            }, 120000); // 2 minute timeout
+
+            this.waiting.push(waiter);
+        });
+    }
 
-        // If currently reconnecting, wait for it
-        if (this.isReconnecting) {
-            return this.waitForReconnect();
+    /**
+     * Let the next waiting operation try again
+     */
+    private notifyWaiting(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            next.wake();
         }
+    }
 
-        // Need to connect or reconnect
-        return this.connect();
+    /**
+     * Open a new connection, which is reserved for the caller
+     * @param waitForSlot Wait for a slot of the host; otherwise the caller already took one
+     */
+    private open(waitForSlot: boolean): Promise<PooledConnection> {
+        const opening = this.connect(waitForSlot).finally(() => {
+            // dispose() may have let another open() start meanwhile
+            if (this.opening === opening) {
+                this.opening = null;
+            }
+        });
+        this.opening = opening;
+        return opening;
     }
 
     /**
      * Connect to the server
      */
-    private async connect(): Promise<RemoteClient> {
-        this.isReconnecting = true;
+    private async connect(waitForSlot: boolean): Promise<PooledConnection> {
+        let client: RemoteClient | null = null;
+        let hasSlot = !waitForSlot;
+        const generation = this.generation;
 
         try {
-            // Dispose old client if exists
-            if (this.client) {
-                try {
-                    await this.client.disconnect();
-                } catch {
-                    // Ignore disconnect errors
-                }
-                this.client = null;
-                // Release the slot if we had one
-                if (this.hasSlot) {
-                    globalConnectionManager.releaseSlot();
-                    this.hasSlot = false;
-                }
-            }
+            // Fill in credentials kept in secure storage
+            const config = await credentialStore.resolve(this.config);
 
             // Acquire a connection slot from global manager
-            if (!this.hasSlot) {
-                await globalConnectionManager.acquireSlot();
-                this.hasSlot = true;
+            if (waitForSlot) {
+                await globalConnectionManager.acquireSlot(this.host, this.maxConnections);
+                hasSlot = true;
             }
 
-            Logger.info(`Connecting to ${this.config.host}...`);
-            
-            // Create new client with timeout wrapper
-            this.client = createClient(this.config);
+            Logger.info(`Connecting to ${this.config.host}${this.connections.length > 0 ? ` (connection ${this.connections.length + 1})` : ''}...`);
             
-            // Connect with timeout
-            await this.withTimeout(
-                this.client.connect(),
-                this.operationTimeout,
-                'Connection timeout'
-            );
+            // Connect with timeout, paused while the client asks the user for credentials
+            const timeout = this.createPausableTimeout(this.operationTimeout, 'Connection timeout');
+            const pauseWhile = <A, R>(prompt: (request: A) => Promise<R>) => async (request: A): Promise<R> => {
+                timeout.pause();
+                try {
+                    return await prompt(request);
+                } finally {
+                    timeout.resume();
+                }
+            };
+            client = this.clientFactory(config, {
+                credential: pauseWhile(credentialStore.prompt),
+                keyboardInteractive: pauseWhile(credentialStore.keyboardInteractive),
+                hostKey: pauseWhile(hostKeyStore.verify)
+            });
+
+            try {
+                await Promise.race([client.connect(), timeout.promise]);
+            } finally {
+                timeout.pause();
+            }
 
+            // Nobody would close a connection that finished opening after dispose()
+            if (generation !== this.generation) {
+                throw new Error('Connection pool closed');
+            }
+
+            const connection: PooledConnection = { client, busy: true, lastActivity: Date.now() };
+            this.connections.push(connection);
             this.health = 'healthy';
             this.reconnectAttempts = 0;
-            this.reconnectDelay = 1000;
-            this.lastActivity = Date.now();
             
             // Start health monitoring
             this.startHealthCheck();
 
             Logger.success(`Connected to ${this.config.host}`);
-            return this.client;
+            return connection;
         } catch (error) {
             const errorMessage = (error as Error).message;
+
+            // Release slot since we couldn't connect
+            if (hasSlot) {
+                globalConnectionManager.releaseSlot(this.host);
+            }
+            if (client) {
+                client.disconnect().catch(() => undefined);
+            }
+            if (generation !== this.generation) {
+                throw error;
+            }
             
-            // Check for 530 max connections error
-            if (errorMessage.includes('530') && errorMessage.toLowerCase().includes('maximum')) {
-                this.health = 'rate-limited';
-                globalConnectionManager.setRateLimited();
-                // Release slot since we couldn't connect
-                if (this.hasSlot) {
-                    globalConnectionManager.releaseSlot();
-                    this.hasSlot = false;
+            // Check for 421/530 max connections error
+            if (this.isRateLimitError(error as Error)) {
+                if (this.connections.length > 0) {
+                    // Keep working with the connections the server accepted
+                    globalConnectionManager.reduceLimit(this.host, this.connections.length);
+                } else {
+                    this.health = 'rate-limited';
+                    globalConnectionManager.setRateLimited(this.host);
                 }
-            } else {
+            } else if (this.connections.length === 0) {
                 this.health = 'failed';
             }
             
-            this.client = null;
-            
             Logger.error(`Connection failed: ${errorMessage}`);
             throw error;
-        } finally {
-            this.isReconnecting = false;
         }
     }
 
     /**
-     * Wait for ongoing reconnection
+     * Wait with exponential backoff before the next connection attempt
      */
-    private async waitForReconnect(): Promise<RemoteClient> {
-        const maxWait = 60000; // 60 seconds max wait
-        const checkInterval = 100;
-        let waited = 0;
-
-        while (this.isReconnecting && waited < maxWait) {
-            await new Promise(resolve => setTimeout(resolve, checkInterval));
-            waited += checkInterval;
-        }
-
-        if (this.client && this.health === 'healthy') {
-            return this.client;
-        }
-
-        throw new Error('Reconnection failed');
-    }
-
-    /**
-     * Attempt to reconnect with exponential backoff
-     */
-    public async reconnect(): Promise<RemoteClient> {
-        // If rate limited, wait for the rate limit to expire first
-        if (globalConnectionManager.isRateLimited()) {
-            const waitTime = globalConnectionManager.getRateLimitRemaining();
-            Logger.warn(`Server rate limited. Waiting ${Math.ceil(waitTime / 1000)}s before reconnecting...`);
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-            // Reset reconnect attempts after rate limit wait
-            this.reconnectAttempts = 0;
-        }
-
+    private async backoff(): Promise<void> {
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
             this.health = 'failed';
             throw new Error(`Max reconnection attempts (${this.maxReconnectAttempts}) reached`);
@@ -339,94 +493,81 @@ export class ConnectionPool {
         Logger.warn(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
         
         await new Promise(resolve => setTimeout(resolve, delay));
-
-        return this.connect();
     }
 
     /**
      * Execute an operation with automatic retry on failure
-     * Operations are serialized using a mutex to prevent basic-ftp errors
+     * Each operation gets a connection of its own, since basic-ftp only runs one task at a time
      */
     public async executeWithRetry<T>(
         operation: (client: RemoteClient) => Promise<T>,
         operationName: string
     ): Promise<T> {
         const maxRetries = 3;
+        const generation = this.generation;
         let lastError: Error | null = null;
 
-        // Acquire the operation lock - this ensures only one FTP operation runs at a time
-        const releaseLock = await this.acquireOperationLock();
+        for (let attempt = 1; attempt <= maxRetries; attempt++) {
+            let connection: PooledConnection | undefined;
 
-        try {
-            for (let attempt = 1; attempt <= maxRetries; attempt++) {
-                try {
-                    this.pendingOperations++;
-                    const client = await this.getConnection();
-                    
-                    // Execute with timeout
-                    const result = await this.withTimeout(
-                        operation(client),
-                        this.operationTimeout,
-                        `${operationName} timeout`
-                    );
-
-                    this.lastActivity = Date.now();
-                    this.pendingOperations--;
-                    return result;
-                } catch (error) {
-                    this.pendingOperations--;
-                    lastError = error as Error;
-                    
-                    const isConnectionError = this.isConnectionError(error as Error);
-                    const isRateLimit = this.isRateLimitError(error as Error);
-                    
-                    Logger.warn(`${operationName} failed (attempt ${attempt}/${maxRetries}): ${lastError.message}`);
-
-                    // Rate limit error - special handling
-                    if (isRateLimit) {
-                        globalConnectionManager.setRateLimited();
+            try {
+                connection = await this.acquire();
+                
+                // Execute with timeout, transfers run on as long as they move data
+                const result = await this.withIdleTimeout(
+                    operation(connection.client),
+                    connection.client,
+                    this.operationTimeout,
+                    `${operationName} timeout`
+                );
+
+                this.release(connection);
+                return result;
+            } catch (error) {
+                lastError = error as Error;
+
+                const isConnectionError = this.isConnectionError(error as Error);
+                const isRateLimit = this.isRateLimitError(error as Error);
+
+                // A connection that broke or timed out may still be busy, don't hand it out again
+                if (connection) {
+                    if (isConnectionError || isRateLimit) {
+                        this.discard(connection);
+                    } else {
+                        this.release(connection);
+                    }
+                }
+
+                // Wrong or missing credentials - the client already asked again, retrying won't help
+                // Neither does reconnecting a pool that was closed meanwhile
+                if (error instanceof AuthenticationError || generation !== this.generation) {
+                    throw error;
+                }
+                
+                Logger.warn(`${operationName} failed (attempt ${attempt}/${maxRetries}): ${lastError.message}`);
+
+                // Rate limit error - special handling
+                if (isRateLimit) {
+                    // Without any connection left, wait for the limit to expire; the next connect waits for it
+                    if (this.connections.length === 0 && !globalConnectionManager.isRateLimited(this.host)) {
+                        globalConnectionManager.setRateLimited(this.host);
                         this.health = 'rate-limited';
-                        
-                        if (attempt < maxRetries) {
-                            // Wait for rate limit to expire then retry
-                            const waitTime = globalConnectionManager.getRateLimitRemaining();
-                            Logger.info(`Waiting ${Math.ceil(waitTime / 1000)}s due to server connection limit...`);
-                            await new Promise(resolve => setTimeout(resolve, waitTime));
-                            // Reset the connection for retry
-                            if (this.client) {
-                                try {
-                                    await this.client.disconnect();
-                                } catch {
-                                    // Ignore
-                                }
-                                this.client = null;
-                                if (this.hasSlot) {
-                                    globalConnectionManager.releaseSlot();
-                                    this.hasSlot = false;
-                                }
-                            }
-                            this.health = 'disconnected';
-                        }
-                    } else if (isConnectionError && attempt < maxRetries) {
-                        // Connection error - try to reconnect
-                        this.health = 'degraded';
-                        try {
-                            await this.reconnect();
-                        } catch (reconnectError) {
-                            Logger.error(`Reconnection failed: ${(reconnectError as Error).message}`);
-                        }
-                    } else if (!isConnectionError) {
-                        // Non-connection error - don't retry
-                        throw error;
                     }
+                } else if (isConnectionError && attempt < maxRetries) {
+                    // Connection error - try again on a new connection
+                    try {
+                        await this.backoff();
+                    } catch (reconnectError) {
+                        Logger.error(`Reconnection failed: ${(reconnectError as Error).message}`);
+                    }
+                } else if (!isConnectionError) {
+                    // Non-connection error - don't retry
+                    throw error;
                 }
             }
-
-            throw lastError || new Error(`${operationName} failed after ${maxRetries} attempts`);
-        } finally {
-            // Always release the lock
-            releaseLock();
         }
+
+        throw lastError || new Error(`${operationName} failed after ${maxRetries} attempts`);
     }
 
     /**
@@ -459,10 +600,12 @@ export class ConnectionPool {
 
     /**
      * Check if error is a rate limit / max connections error
+     * FTP servers answer 421 or 530 when a user or address has too many connections
      */
     private isRateLimitError(error: Error): boolean {
         const message = error.message.toLowerCase();
-        return message.includes('530') && message.includes('maximum');
+        return (message.includes('530') || message.includes('421'))
+            && (message.includes('maximum') || message.includes('too many'));
     }
 
     /**
@@ -491,38 +634,104 @@ export class ConnectionPool {
         }
     }
 
+    /**
+     * Wrap a promise with a timeout that restarts whenever the client reports transfer progress
+     */
+    private async withIdleTimeout<T>(
+        promise: Promise<T>,
+        client: RemoteClient,
+        ms: number,
+        errorMessage: string
+    ): Promise<T> {
+        const started = Date.now();
+        let intervalId: NodeJS.Timeout;
+
+        const timeoutPromise = new Promise<never>((_, reject) => {
+            intervalId = setInterval(() => {
+                if (Date.now() - Math.max(started, client.getLastProgress()) >= ms) {
+                    reject(new Error(errorMessage));
+                }
+            }, Math.min(ms, 1000));
+        });
+
+        try {
+            return await Promise.race([promise, timeoutPromise]);
+        } finally {
+            clearInterval(intervalId!);
+        }
+    }
+
+    /**
+     * Create a timeout that can be paused, e.g. while waiting for user input
+     * Resuming restarts the full duration
+     */
+    private createPausableTimeout(ms: number, errorMessage: string): {
+        promise: Promise<never>;
+        pause: () => void;
+        resume: () => void;
+    } {
+        let timeoutId: NodeJS.Timeout | undefined;
+        let fail: (error: Error) => void = () => undefined;
+        const promise = new Promise<never>((_, reject) => {
+            fail = reject;
+        });
+
+        const pause = () => clearTimeout(timeoutId);
+        const resume = () => {
+            pause();
+            timeoutId = setTimeout(() => fail(new Error(errorMessage)), ms);
+        };
+
+        resume();
+        return { promise, pause, resume };
+    }
+
     /**
      * Start periodic health checks
+     * Idle connections beyond the first are closed, the first is kept alive
      */
     private startHealthCheck(): void {
-        this.stopHealthCheck();
+        if (this.healthCheckInterval) {
+            return;
+        }
 
         this.healthCheckInterval = setInterval(async () => {
-            // Skip if operations are pending
-            if (this.pendingOperations > 0) {
-                return;
-            }
+            for (const connection of [...this.connections]) {
+                // Skip connections with a running operation
+                if (connection.busy) {
+                    continue;
+                }
+
+                const idleTime = Date.now() - connection.lastActivity;
+                if (idleTime <= this.keepAliveInterval) {
+                    continue;
+                }
 
-            const idleTime = Date.now() - this.lastActivity;
+                if (connection !== this.connections[0]) {
+                    Logger.debug(`Closing idle connection to ${this.config.host}`);
+                    this.discard(connection);
+                    continue;
+                }
 
-            // If idle for too long, check connection health
-            if (idleTime > this.keepAliveInterval) {
+                // If idle for too long, check connection health
+                connection.busy = true;
                 try {
-                    if (this.client && this.client.isConnected()) {
+                    if (connection.client.isConnected()) {
                         // Try a simple operation to check connection
                         await this.withTimeout(
-                            this.client.exists(this.config.remotePath),
+                            connection.client.exists(this.config.remotePath),
                             5000,
                             'Health check timeout'
                         );
-                        this.lastActivity = Date.now();
+                        this.release(connection);
                         Logger.debug('Health check passed');
                     } else {
-                        this.health = 'disconnected';
+                        this.discard(connection);
                         Logger.debug('Connection lost, will reconnect on next operation');
                     }
                 } catch (error) {
                     Logger.debug(`Health check failed: ${(error as Error).message}`);
+                    this.discard(connection);
                     this.health = 'degraded';
                 }
             }
@@ -550,7 +759,14 @@ export class ConnectionPool {
      * Check if connected
      */
     public isConnected(): boolean {
-        return this.client !== null && this.health === 'healthy';
+        return this.connections.length > 0 && this.health === 'healthy';
+    }
+
+    /**
+     * Get the number of open connections
+     */
+    public getConnectionCount(): number {
+        return this.connections.length;
     }
 
     /**
@@ -559,19 +775,26 @@ export class ConnectionPool {
     public async dispose(): Promise<void> {
         this.stopHealthCheck();
 
-        if (this.client) {
+        // A connection still being opened is closed as soon as it is ready
+        this.generation++;
+        this.opening = null;
+
+        // Operations still waiting for a connection won't get one
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(w => w.reject(new Error('Connection pool closed')));
+
+        const connections = this.connections;
+        this.connections = [];
+        for (const connection of connections) {
             try {
-                await this.client.disconnect();
+                await connection.client.disconnect();
             } catch {
                 // Ignore
             }
-            this.client = null;
-        }
 
-        // Release connection slot
-        if (this.hasSlot) {
-            globalConnectionManager.releaseSlot();
-            this.hasSlot = false;
+            // Release connection slot
+            globalConnectionManager.releaseSlot(this.host);
         }
 
         this.health = 'disconnected';
@@ -579,10 +802,16 @@ export class ConnectionPool {
 
     /**
      * Force reconnection
+     * Idle connections are closed, busy ones are closed once their operation fails
      */
     public async forceReconnect(): Promise<void> {
         this.reconnectAttempts = 0;
+        for (const connection of [...this.connections]) {
+            if (!connection.busy) {
+                this.discard(connection);
+            }
+        }
         this.health = 'disconnected';
-        await this.connect();
+        await this.getConnection();
     }
 }
@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { FtpSyncConfig } from '../types';
+import { AuthPrompts, CredentialPrompt, CredentialRequest, KeyboardInteractivePrompt } from '../clients';
+import { Logger } from '../utils';
+
+/**
+ * Credential fields that can be kept in secure storage instead of .ftpsync.json
+ */
+export type SecretField = CredentialRequest['field'];
+
+/**
+ * Where answers to credential prompts are kept
+ * - secureStorage: OS keychain, survives restarts
+ * - session: memory, until VS Code is closed
+ * - never: ask on every connect
+ */
+export type RememberCredentials = 'secureStorage' | 'session' | 'never';
+
+const SECRET_KEY_PREFIX = 'ftpSync.secret';
+
+/**
+ * Stores passwords and key passphrases in VS Code's SecretStorage
+ * (OS keychain) or for the session, and asks for them when the clients need them
+ */
+class CredentialStore {
+    private secrets: vscode.SecretStorage | undefined;
+    private sessionSecrets: Map<string, string> = new Map();
+    private pendingPrompts: Map<string, Promise<string | undefined>> = new Map();
+
+    /**
+     * Attach the extension's secret storage
+     */
+    public init(secrets: vscode.SecretStorage): void {
+        this.secrets = secrets;
+    }
+
+    /**
+     * Check if secure storage is available
+     */
+    public isAvailable(): boolean {
+        return this.secrets !== undefined;
+    }
+
+    /**
+     * Describe the server a secret belongs to, e.g. "sftp://deploy@example.com:22"
+     */
+    public getServerId(config: FtpSyncConfig): string {
+        return `${config.protocol}://${config.username}@${config.host}:${config.port}`;
+    }
+
+    /**
+     * Get a stored secret for a server, from the session first, then from secure storage
+     */
+    public async get(config: FtpSyncConfig, field: SecretField): Promise<string | undefined> {
+        const key = this.getKey(config, field);
+        return this.sessionSecrets.get(key) ?? await this.secrets?.get(key);
+    }
+
+    /**
+     * Store a secret for a server
+     */
+    public async store(config: FtpSyncConfig, field: SecretField, value: string): Promise<void> {
+        if (!this.secrets) {
+            throw new Error('Secure storage is not available');
+        }
+        await this.secrets.store(this.getKey(config, field), value);
+        Logger.info(`Stored ${field} for ${this.getServerId(config)} in secure storage`);
+    }
+
+    /**
+     * Remove stored secrets for a server
+     * @param field Field to remove, or all fields if omitted
+     */
+    public async delete(config: FtpSyncConfig, field?: SecretField): Promise<void> {
+        const fields: SecretField[] = field ? [field] : ['password', 'passphrase'];
+        for (const name of fields) {
+            this.sessionSecrets.delete(this.getKey(config, name));
+            await this.secrets?.delete(this.getKey(config, name));
+        }
+        Logger.info(`Cleared stored ${field || 'credentials'} for ${this.getServerId(config)}`);
+    }
+
+    /**
+     * Get a copy of the config with credentials missing from the file filled in
+     * from the session or secure storage
+     * The original config is not modified so secrets never end up in shared state
+     */
+    public async resolve(config: FtpSyncConfig): Promise<FtpSyncConfig> {
+        const resolved = { ...config };
+        for (const field of ['password', 'passphrase'] as SecretField[]) {
+            if (!resolved[field]) {
+                resolved[field] = await this.get(config, field);
+            }
+        }
+        return resolved;
+    }
+
+    /**
+     * Ask the user for a missing or rejected credential (masked input box)
+     * and remember the answer as configured in ftpSync.rememberCredentials
+     * Concurrent connects to the same server share a single prompt
+     */
+    public readonly prompt: CredentialPrompt = (request) => {
+        const key = this.getKey(request.config, request.field);
+        let pending = this.pendingPrompts.get(key);
+
+        if (!pending) {
+            pending = this.askAndRemember(request).finally(() => this.pendingPrompts.delete(key));
+            this.pendingPrompts.set(key, pending);
+        }
+
+        return pending;
+    };
+
+    /**
+     * Ask the user to answer keyboard-interactive prompts (e.g. 2FA codes), one input box each
+     * Answers are never remembered as they are typically one-time codes
+     */
+    public readonly keyboardInteractive: KeyboardInteractivePrompt = async ({ config, name, instructions, prompts }) => {
+        const answers: string[] = [];
+
+        for (const [index, { prompt, echo }] of prompts.entries()) {
+            const answer = await vscode.window.showInputBox({
+                title: name || `FTP Sync: ${config.name || config.host}`,
+                prompt: index === 0 && instructions ? `${instructions} ${prompt}` : prompt,
+                password: !echo,
+                ignoreFocusOut: true
+            });
+            if (answer === undefined) {
+                return undefined;
+            }
+            answers.push(answer);
+        }
+
+        return answers;
+    };
+
+    /**
+     * All prompts for the clients
+     */
+    public get prompts(): AuthPrompts {
+        return { credential: this.prompt, keyboardInteractive: this.keyboardInteractive };
+    }
+
+    /**
+     * Show the input box and remember the answer
+     */
+    private async askAndRemember({ field, config, retry }: CredentialRequest): Promise<string | undefined> {
+        const remember = vscode.workspace.getConfiguration('ftpSync')
+            .get<RememberCredentials>('rememberCredentials', 'secureStorage');
+        const label = field === 'password' ? 'Password' : 'Key passphrase';
+
+        // Don't offer a rejected value again on the next connect
+        if (retry) {
+            await this.delete(config, field);
+        }
+
+        const value = await vscode.window.showInputBox({
+            title: `FTP Sync: ${config.name || config.host}`,
+            prompt: retry
+                ? `${label} was rejected - try again for ${config.username}@${config.host}`
+                : `${label} for ${config.username}@${config.host}`,
+            placeHolder: remember === 'secureStorage' ? 'Stored securely' : remember === 'session' ? 'Remembered until VS Code is closed' : undefined,
+            password: true,
+            ignoreFocusOut: true
+        });
+
+        if (value === undefined) {
+            return undefined;
+        }
+
+        if (remember === 'secureStorage' && this.secrets) {
+            await this.store(config, field, value);
+        } else if (remember !== 'never') {
+            this.sessionSecrets.set(this.getKey(config, field), value);
+        }
+
+        return value;
+    }
+
+    /**
+     * Build the SecretStorage key for a server and field
+     */
+    private getKey(config: FtpSyncConfig, field: SecretField): string {
+        return `${SECRET_KEY_PREFIX}:${this.getServerId(config)}:${field}`;
+    }
+}
+
+// Export singleton
+export const credentialStore = new CredentialStore();
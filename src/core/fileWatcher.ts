@@ -1,17 +1,38 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { FtpSyncConfig } from '../types';
-import { Logger, normalizePath, getRelativePath, localToRemotePath } from '../utils';
+import { Logger, normalizePath, getRelativePath, localToRemotePath, remoteToLocalPath } from '../utils';
 import { IgnoreHandler } from './ignoreHandler';
 import { ConnectionPool } from './connectionPool';
 import { OperationQueue } from './operationQueue';
+import { ChangesSinceSync, FileEntry, SyncAction, SyncMode, SyncPlan, buildSyncPlan } from './syncPlanner';
+import { SyncManifest, RemoteState, LocalState } from './syncManifest';
+import { ClientFactory, RemoteClient, RemoteFileInfo, createClient } from '../clients';
 
-export type FileChangeType = 'created' | 'changed' | 'deleted';
+export type FileChangeType = 'created' | 'changed' | 'deleted' | 'renamed';
 
 export interface FileChangeEvent {
     type: FileChangeType;
     uri: vscode.Uri;
     relativePath: string;
+    oldRelativePath?: string; // Previous path of a renamed file or folder
+}
+
+// How long watcher events for the paths of a rename are ignored (ms)
+const RENAME_EVENT_WINDOW = 2000;
+
+/**
+ * What to do with an upload whose server copy changed since the last sync
+ */
+export type ConflictResolution = 'overwrite' | 'download' | 'skip';
+
+export interface UploadConflict {
+    localPath: string;
+    remotePath: string;
+    relativePath: string;
+    targetName: string;
+    remote: RemoteFileInfo; // The server copy as it is now
 }
 
 export interface WatcherStats {
@@ -35,13 +56,19 @@ export class FileWatcher {
     private watcherDisposables: vscode.Disposable[] = [];
     private connectionPool: ConnectionPool;
     private operationQueue: OperationQueue;
+    private manifest: SyncManifest;
     private isRunning = false;
     private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
     private pendingOperations: Set<string> = new Set(); // Track files currently being processed
     private activeUploads: Set<string> = new Set(); // Track files being uploaded by uploadFile()
+    private activeDownloads: Set<string> = new Set(); // Track files being written by downloadFile()
+    private pendingDeletes: Map<string, vscode.Uri> = new Map(); // Debounced deletes that may turn out to be renames
+    private pendingCreates: Map<string, vscode.Uri> = new Map(); // Debounced creates that may turn out to be renames
+    private renamedPaths: Set<string> = new Set(); // Paths of queued renames, their watcher events are ignored
     private debounceMs = 500; // Increased from 300ms to handle Ctrl+S spam
     private onChangeCallback?: (event: FileChangeEvent) => void;
     private onErrorCallback?: (error: Error) => void;
+    private onConflictCallback?: (conflict: UploadConflict) => Promise<ConflictResolution>;
     private stats: WatcherStats = {
         uploadsSucceeded: 0,
         uploadsFailed: 0,
@@ -52,7 +79,10 @@ export class FileWatcher {
         queueLength: 0
     };
 
-    constructor(workspacePath: string, config: FtpSyncConfig) {
+    /**
+     * @param clientFactory Creates the connections to the server
+     */
+    constructor(workspacePath: string, config: FtpSyncConfig, clientFactory: ClientFactory = createClient) {
         this.workspacePath = workspacePath;
         this.config = config;
         this.ignoreHandler = new IgnoreHandler(
@@ -60,11 +90,15 @@ export class FileWatcher {
             config.ignore,
             config.useGitIgnore
         );
-        this.connectionPool = new ConnectionPool(config);
+        this.connectionPool = new ConnectionPool(config, clientFactory);
         this.operationQueue = new OperationQueue(
             config.concurrency || 3,
             config.timeout || 30000
         );
+        this.manifest = new SyncManifest(
+            workspacePath,
+            `${config.username}@${config.host}:${config.port}`
+        );
     }
 
     /**
@@ -102,9 +136,14 @@ export class FileWatcher {
                 this.watcherDisposables.push(
                     this.watcher.onDidChange((uri) => this.handleFileChange('changed', uri))
                 );
+                // Renames in VS Code are moved on the server instead of deleted and uploaded again
+                this.watcherDisposables.push(
+                    vscode.workspace.onDidRenameFiles((event) => this.handleRename(event))
+                );
             }
 
-            if (this.config.watcher.autoDelete) {
+            // Deletes are also needed to recognize renames made outside VS Code
+            if (this.config.watcher.autoDelete || this.config.watcher.autoUpload) {
                 this.watcherDisposables.push(
                     this.watcher.onDidDelete((uri) => this.handleFileChange('deleted', uri))
                 );
@@ -113,7 +152,14 @@ export class FileWatcher {
             this.isRunning = true;
             Logger.success(`File watcher started for ${this.workspacePath}`);
             Logger.info(`Watching pattern: ${watchPattern}`);
-            Logger.info(`Concurrency: ${this.config.concurrency || 3}, Timeout: ${this.config.timeout || 30000}ms`);
+            Logger.info(`Concurrency: ${this.config.concurrency || 3} (max ${this.config.maxConnectionsPerHost || 4} connections per host), Timeout: ${this.config.timeout || 30000}ms`);
+
+            // Catch up on changes made while the watcher was stopped
+            if (this.config.watcher.uploadChangedOnStart) {
+                this.queueChangedFiles().catch((error) => {
+                    Logger.error(`Failed to upload changed files: ${(error as Error).message}`);
+                });
+            }
         } catch (error) {
             this.stats.isConnected = false;
             Logger.error(`Failed to start file watcher: ${(error as Error).message}`, error as Error);
@@ -135,9 +181,13 @@ export class FileWatcher {
 
         // Clear pending operations tracking
         this.pendingOperations.clear();
+        this.pendingDeletes.clear();
+        this.pendingCreates.clear();
+        this.renamedPaths.clear();
         
         // Clear active uploads tracking
         this.activeUploads.clear();
+        this.activeDownloads.clear();
 
         // Clear operation queue
         this.operationQueue.clear();
@@ -152,6 +202,9 @@ export class FileWatcher {
             this.watcher = undefined;
         }
 
+        // Persist pending manifest changes
+        this.manifest.flush();
+
         // Dispose connection pool
         await this.connectionPool.dispose();
         this.stats.isConnected = false;
@@ -160,6 +213,34 @@ export class FileWatcher {
         Logger.info('File watcher stopped');
     }
 
+    /**
+     * Stop the watcher and release the connection, even if the watcher was never started
+     * (watchers created for manual uploads/downloads still hold a connection)
+     */
+    public async dispose(): Promise<void> {
+        if (this.isRunning) {
+            // stop() flushes the manifest and closes the connections itself
+            await this.stop();
+            return;
+        }
+        this.manifest.flush();
+        await this.connectionPool.dispose();
+    }
+
+    /**
+     * Get the configuration this watcher was created with
+     */
+    public getConfig(): FtpSyncConfig {
+        return this.config;
+    }
+
+    /**
+     * Get a display name for the server this watcher uploads to
+     */
+    public getTargetName(): string {
+        return this.config.name || this.config.host;
+    }
+
     /**
      * Check if watcher is running
      */
@@ -193,12 +274,25 @@ export class FileWatcher {
         this.onErrorCallback = callback;
     }
 
+    /**
+     * Set callback that decides about uploads whose server copy changed since the last sync
+     * Without it, such files are overwritten
+     */
+    public onConflict(callback: (conflict: UploadConflict) => Promise<ConflictResolution>): void {
+        this.onConflictCallback = callback;
+    }
+
     /**
      * Handle file change events with debouncing and duplicate prevention
      */
     private handleFileChange(type: FileChangeType, uri: vscode.Uri): void {
         const relativePath = getRelativePath(this.workspacePath, uri.fsPath);
 
+        // Never sync our own manifest
+        if (uri.fsPath === this.manifest.getPath()) {
+            return;
+        }
+
         // Check if file should be ignored
         if (this.ignoreHandler.isIgnored(relativePath)) {
             Logger.debug(`Ignoring ${type} event for: ${relativePath}`);
@@ -214,6 +308,23 @@ export class FileWatcher {
             Logger.debug(`Skipping watcher ${type} for: ${relativePath} (uploadOnSave in progress)`);
             return;
         }
+
+        // Skip events caused by our own downloads, otherwise they would be uploaded right back
+        if (this.activeDownloads.has(key)) {
+            Logger.debug(`Skipping watcher ${type} for: ${relativePath} (download in progress)`);
+            return;
+        }
+
+        // The delete and create of a rename are handled by the queued move
+        if (this.isRenamedPath(key)) {
+            Logger.debug(`Skipping watcher ${type} for: ${relativePath} (rename in progress)`);
+            return;
+        }
+
+        // A delete and a create of the same content are a rename made outside VS Code
+        if ((type === 'deleted' || type === 'created') && this.matchRename(type, uri)) {
+            return;
+        }
         
         // If this file is already being processed, just reset the debounce timer
         // This ensures we upload the latest version after the current upload finishes
@@ -223,8 +334,23 @@ export class FileWatcher {
             Logger.debug(`Debouncing ${type} for: ${relativePath}`);
         }
 
+        this.pendingDeletes.delete(key);
+        this.pendingCreates.delete(key);
+        if (type === 'deleted') {
+            this.pendingDeletes.set(key, uri);
+        } else if (type === 'created') {
+            this.pendingCreates.set(key, uri);
+        }
+
         const timer = setTimeout(() => {
             this.debounceTimers.delete(key);
+            this.pendingDeletes.delete(key);
+            this.pendingCreates.delete(key);
+
+            // Deletes are only watched for rename detection
+            if (type === 'deleted' && !this.config.watcher.autoDelete) {
+                return;
+            }
             
             // Skip if this file is already in the queue or being processed
             if (this.pendingOperations.has(key)) {
@@ -244,6 +370,220 @@ export class FileWatcher {
         this.debounceTimers.set(key, timer);
     }
 
+    /**
+     * Handle files and folders renamed or moved in VS Code
+     * Only paths that were synced before are moved on the server, everything else
+     * goes through the normal delete and create events
+     */
+    private handleRename(event: vscode.FileRenameEvent): void {
+        for (const { oldUri, newUri } of event.files) {
+            const oldRelativePath = getRelativePath(this.workspacePath, oldUri.fsPath);
+            const relativePath = getRelativePath(this.workspacePath, newUri.fsPath);
+
+            if (oldRelativePath.startsWith('..') || relativePath.startsWith('..')) {
+                continue;
+            }
+            if (this.ignoreHandler.isIgnored(oldRelativePath) || this.ignoreHandler.isIgnored(relativePath)) {
+                continue;
+            }
+            // Already recognized from the watcher events
+            if (this.pendingOperations.has(newUri.fsPath)) {
+                continue;
+            }
+
+            const oldRemotePath = localToRemotePath(oldUri.fsPath, this.workspacePath, this.config.remotePath);
+            const synced = this.manifest.getRemotePaths()
+                .some(remotePath => remotePath === oldRemotePath || remotePath.startsWith(`${oldRemotePath}/`));
+            if (synced) {
+                this.queueRename(oldUri, newUri);
+            }
+        }
+    }
+
+    /**
+     * Look for the other half of a rename among the debounced deletes or creates
+     * and queue the move if one is found
+     * @returns true if the event was consumed by a rename
+     */
+    private matchRename(type: FileChangeType, uri: vscode.Uri): boolean {
+        const candidates = [...(type === 'created' ? this.pendingDeletes : this.pendingCreates).values()];
+        // Prefer a move that keeps the name
+        const name = path.basename(uri.fsPath);
+        candidates.sort((a, b) => Number(path.basename(b.fsPath) === name) - Number(path.basename(a.fsPath) === name));
+
+        for (const candidate of candidates) {
+            const [oldUri, newUri] = type === 'created' ? [candidate, uri] : [uri, candidate];
+            if (this.looksLikeRename(oldUri.fsPath, newUri.fsPath)) {
+                this.queueRename(oldUri, newUri);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Check whether a new local path holds what was last synced from an old, now missing one
+     * Folders match if every synced file below them does
+     */
+    private looksLikeRename(oldLocalPath: string, newLocalPath: string): boolean {
+        if (oldLocalPath === newLocalPath || fs.existsSync(oldLocalPath)) {
+            return false;
+        }
+
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(newLocalPath);
+        } catch {
+            return false;
+        }
+
+        const oldRemotePath = localToRemotePath(oldLocalPath, this.workspacePath, this.config.remotePath);
+        if (!stat.isDirectory()) {
+            return this.matchesSynced(newLocalPath, oldRemotePath, stat);
+        }
+
+        const syncedFiles = this.manifest.getRemotePaths().filter(remotePath => remotePath.startsWith(`${oldRemotePath}/`));
+        return syncedFiles.length > 0 && syncedFiles.every(remotePath => {
+            const localPath = path.join(newLocalPath, ...remotePath.slice(oldRemotePath.length + 1).split('/'));
+            try {
+                return this.matchesSynced(localPath, remotePath, fs.statSync(localPath));
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Check whether a local file has the content last synced to a remote path
+     * A moved file keeps its mtime, so size and mtime are enough while deletes are uploaded
+     * anyway. Without autoDelete a wrong match would delete the old path on the server
+     * that a plain delete leaves alone, so the content hash has to match as well
+     */
+    private matchesSynced(localPath: string, remotePath: string, stat: fs.Stats): boolean {
+        const entry = this.manifest.get(remotePath);
+        if (!entry || entry.size !== stat.size) {
+            return false;
+        }
+        if (this.config.watcher.autoDelete && entry.mtime === stat.mtimeMs) {
+            return true;
+        }
+
+        try {
+            return SyncManifest.hashFileSync(localPath) === entry.hash;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Check if a path belongs to a queued rename
+     */
+    private isRenamedPath(localPath: string): boolean {
+        for (const renamedPath of this.renamedPaths) {
+            if (localPath === renamedPath || localPath.startsWith(renamedPath + path.sep)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Ignore watcher events for a renamed path (and everything below it) for a moment
+     * and drop the ones already waiting for their debounce
+     */
+    private markRenamed(localPath: string): void {
+        this.renamedPaths.add(localPath);
+        setTimeout(() => this.renamedPaths.delete(localPath), RENAME_EVENT_WINDOW);
+
+        for (const [key, timer] of this.debounceTimers) {
+            if (this.isRenamedPath(key)) {
+                clearTimeout(timer);
+                this.debounceTimers.delete(key);
+                this.pendingDeletes.delete(key);
+                this.pendingCreates.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Queue a rename for processing
+     */
+    private queueRename(oldUri: vscode.Uri, newUri: vscode.Uri): void {
+        const oldRelativePath = getRelativePath(this.workspacePath, oldUri.fsPath);
+        const relativePath = getRelativePath(this.workspacePath, newUri.fsPath);
+        const key = newUri.fsPath;
+
+        this.markRenamed(oldUri.fsPath);
+        this.markRenamed(newUri.fsPath);
+        this.pendingOperations.add(key);
+
+        if (this.onChangeCallback) {
+            this.onChangeCallback({ type: 'renamed', uri: newUri, relativePath, oldRelativePath });
+        }
+
+        this.operationQueue.enqueue(
+            () => this.processRename(oldUri, newUri, oldRelativePath, relativePath),
+            { priority: 1, timeout: this.config.timeout || 30000 }
+        ).then(() => {
+            this.pendingOperations.delete(key);
+        }).catch((error) => {
+            this.pendingOperations.delete(key);
+            Logger.error(`[${this.getTargetName()}] Failed to rename ${oldRelativePath}: ${error.message}`);
+            if (this.onErrorCallback) {
+                this.onErrorCallback(error as Error);
+            }
+        });
+    }
+
+    /**
+     * Move a renamed file or folder on the server
+     * Falls back to uploading the new path if the server has nothing to move
+     */
+    private async processRename(
+        oldUri: vscode.Uri,
+        newUri: vscode.Uri,
+        oldRelativePath: string,
+        relativePath: string
+    ): Promise<void> {
+        const oldRemotePath = localToRemotePath(oldUri.fsPath, this.workspacePath, this.config.remotePath);
+        const newRemotePath = localToRemotePath(newUri.fsPath, this.workspacePath, this.config.remotePath);
+
+        let isDirectory: boolean;
+        try {
+            isDirectory = fs.statSync(newUri.fsPath).isDirectory();
+        } catch {
+            Logger.debug(`Skipping rename of ${oldRelativePath}: ${relativePath} no longer exists`);
+            return;
+        }
+
+        try {
+            await this.connectionPool.executeWithRetry(
+                async (client) => {
+                    await client.ensureDirectory(path.posix.dirname(newRemotePath));
+                    await client.rename(oldRemotePath, newRemotePath);
+                },
+                `rename ${oldRelativePath}`
+            );
+            this.manifest.rename(oldRemotePath, newRemotePath);
+            this.stats.lastActivity = new Date();
+            this.stats.isConnected = true;
+        } catch (error) {
+            this.stats.isConnected = this.connectionPool.isConnected();
+            Logger.warn(`[${this.getTargetName()}] Could not rename ${oldRelativePath} on the server, uploading ${relativePath} instead: ${(error as Error).message}`);
+            if (isDirectory) {
+                await this.uploadFolder(newUri.fsPath);
+            } else {
+                await this.processFileChange('created', newUri, relativePath);
+            }
+            return;
+        }
+
+        // The content may have changed along with the name
+        if (!isDirectory && !await this.manifest.isUnchanged(newUri.fsPath, newRemotePath)) {
+            await this.processFileChange('changed', newUri, relativePath);
+        }
+    }
+
     /**
      * Queue a file change for processing
      */
@@ -266,16 +606,18 @@ export class FileWatcher {
         // Queue the operation
         const priority = type === 'deleted' ? 0 : 1; // Uploads have higher priority
         
+        // No overall limit, uploads of large files take long; the connection pool
+        // times out operations that stop making progress
         this.operationQueue.enqueue(
             () => this.processFileChange(type, uri, relativePath),
-            { priority, timeout: this.config.timeout || 30000 }
+            { priority, timeout: 0 }
         ).then(() => {
             // Remove from pending on success
             this.pendingOperations.delete(key);
         }).catch((error) => {
             // Remove from pending on error
             this.pendingOperations.delete(key);
-            Logger.error(`Failed to process ${type} for ${relativePath}: ${error.message}`);
+            Logger.error(`[${this.getTargetName()}] Failed to process ${type} for ${relativePath}: ${error.message}`);
             if (this.onErrorCallback) {
                 this.onErrorCallback(error as Error);
             }
@@ -296,21 +638,31 @@ export class FileWatcher {
             this.config.remotePath
         );
 
+        // Skip events that didn't change the content since the last sync (e.g. touch, checkout)
+        if (type !== 'deleted' && this.config.skipUnchanged && await this.manifest.isUnchanged(uri.fsPath, remotePath)) {
+            Logger.debug(`Skipping unchanged file: ${relativePath}`);
+            return;
+        }
+
         try {
             await this.connectionPool.executeWithRetry(
                 async (client) => {
                     switch (type) {
                         case 'created':
-                        case 'changed':
+                        case 'changed': {
+                            const local = await SyncManifest.captureLocalState(uri.fsPath);
                             const result = await client.uploadFile(uri.fsPath, remotePath);
                             if (result.success) {
                                 this.stats.uploadsSucceeded++;
+                                await this.manifest.record(uri.fsPath, remotePath, await this.getRemoteState(client, remotePath), local);
                             } else {
                                 this.stats.uploadsFailed++;
                                 throw result.error || new Error('Upload failed');
                             }
                             break;
+                        }
                         case 'deleted':
+                            this.manifest.remove(remotePath);
                             try {
                                 await client.deleteFile(remotePath);
                                 this.stats.deletesSucceeded++;
@@ -341,8 +693,9 @@ export class FileWatcher {
     /**
      * Upload a single file manually (used by uploadOnSave)
      * This method is serialized via activeUploads to prevent conflicts with the watcher
+     * @param force Skip the check whether the server copy changed since the last sync
      */
-    public async uploadFile(localPath: string): Promise<boolean> {
+    public async uploadFile(localPath: string, force = false): Promise<boolean> {
         const relativePath = getRelativePath(this.workspacePath, localPath);
         
         if (this.ignoreHandler.isIgnored(relativePath)) {
@@ -363,16 +716,30 @@ export class FileWatcher {
         const remotePath = localToRemotePath(localPath, this.workspacePath, this.config.remotePath);
 
         try {
-            await this.connectionPool.executeWithRetry(
+            // Don't silently overwrite someone else's edit on the server
+            const resolution = force ? 'overwrite' : await this.checkConflict(localPath, remotePath, relativePath);
+            if (resolution === 'skip') {
+                Logger.info(`[${this.getTargetName()}] Skipped upload of ${relativePath}, the server copy was kept`);
+                return true;
+            }
+            if (resolution === 'download') {
+                return await this.downloadFile(remotePath, localPath);
+            }
+
+            let local: LocalState | undefined;
+            const remote = await this.connectionPool.executeWithRetry(
                 async (client) => {
+                    local = await SyncManifest.captureLocalState(localPath);
                     const result = await client.uploadFile(localPath, remotePath);
                     if (!result.success) {
                         throw result.error || new Error('Upload failed');
                     }
+                    return this.getRemoteState(client, remotePath);
                 },
                 `upload ${relativePath}`
             );
 
+            await this.manifest.record(localPath, remotePath, remote, local);
             this.stats.uploadsSucceeded++;
             this.stats.lastActivity = new Date();
             this.stats.isConnected = true;
@@ -395,17 +762,22 @@ export class FileWatcher {
      * Download a single file manually
      */
     public async downloadFile(remotePath: string, localPath: string): Promise<boolean> {
+        // Mark this file as being downloaded so the watcher doesn't upload it again
+        this.activeDownloads.add(localPath);
+
         try {
-            await this.connectionPool.executeWithRetry(
+            const remote = await this.connectionPool.executeWithRetry(
                 async (client) => {
                     const result = await client.downloadFile(remotePath, localPath);
                     if (!result.success) {
                         throw result.error || new Error('Download failed');
                     }
+                    return this.getRemoteState(client, remotePath);
                 },
                 `download ${path.basename(remotePath)}`
             );
 
+            await this.manifest.record(localPath, remotePath, remote);
             this.stats.lastActivity = new Date();
             this.stats.isConnected = true;
             return true;
@@ -413,7 +785,170 @@ export class FileWatcher {
             this.stats.isConnected = this.connectionPool.isConnected();
             Logger.error(`Failed to download: ${(error as Error).message}`);
             return false;
+        } finally {
+            // Keep the marker a little longer so the resulting change event is ignored
+            setTimeout(() => {
+                this.activeDownloads.delete(localPath);
+            }, 1000);
+        }
+    }
+
+    /**
+     * Check whether the server copy changed since it was last uploaded or downloaded
+     * and let the conflict callback decide what to do
+     */
+    private async checkConflict(localPath: string, remotePath: string, relativePath: string): Promise<ConflictResolution> {
+        const recorded = this.manifest.get(remotePath)?.remote;
+        if (!this.config.detectConflicts || !recorded || !this.onConflictCallback) {
+            return 'overwrite';
+        }
+
+        const remote = await this.connectionPool.executeWithRetry(
+            (client) => client.getFileInfo(remotePath),
+            `check ${relativePath}`
+        );
+        // Deleted on the server, or unchanged
+        if (!remote || SyncManifest.isSameRemote(SyncManifest.toRemoteState(remote), recorded)) {
+            return 'overwrite';
+        }
+
+        Logger.warn(`[${this.getTargetName()}] ${relativePath} was changed on the server since the last sync`);
+        return this.onConflictCallback({
+            localPath,
+            remotePath,
+            relativePath,
+            targetName: this.getTargetName(),
+            remote
+        });
+    }
+
+    /**
+     * Read the server copy's size and mtime after a transfer, for later conflict checks
+     * and to tell our own uploads apart from changes made by others
+     */
+    private async getRemoteState(client: RemoteClient, remotePath: string): Promise<RemoteState | undefined> {
+        if (!this.config.detectConflicts && !this.config.remoteWatcher.enabled) {
+            return undefined;
+        }
+
+        const info = await client.getFileInfo(remotePath);
+        return info ? SyncManifest.toRemoteState(info) : undefined;
+    }
+
+    /**
+     * Check whether a listed server file is still the copy of the last upload or download
+     */
+    public isSyncedRemote(file: FileEntry): boolean {
+        const recorded = this.manifest.get(file.remotePath)?.remote;
+        return !!recorded && SyncManifest.isSameRemote(recorded, SyncManifest.toRemoteState(file));
+    }
+
+    /**
+     * Check whether a local file was edited since its last upload or download
+     * Files that exist locally but were never synced count as edited
+     */
+    public async hasLocalChanges(localPath: string, remotePath: string): Promise<boolean> {
+        if (!fs.existsSync(localPath)) {
+            return false;
         }
+        return !await this.manifest.isUnchanged(localPath, remotePath);
+    }
+
+    /**
+     * Download a remote file to a path outside the workspace (e.g. for a diff)
+     * The sync manifest is not touched
+     * @returns false if the file doesn't exist on the server
+     */
+    public async downloadCopy(remotePath: string, targetPath: string): Promise<boolean> {
+        return this.connectionPool.executeWithRetry(
+            async (client) => {
+                if (!await client.exists(remotePath)) {
+                    return false;
+                }
+                const result = await client.downloadFile(remotePath, targetPath);
+                if (!result.success) {
+                    throw result.error || new Error('Download failed');
+                }
+                return true;
+            },
+            `download ${path.basename(remotePath)}`
+        );
+    }
+
+    /**
+     * Collect all remote files below the remote counterpart of a local folder
+     * Ignored paths (relative to the workspace) are skipped
+     * @param localPath Local folder whose remote counterpart should be listed
+     * @param skipped Optional array that receives the ignored relative paths
+     */
+    public async collectRemoteFiles(localPath: string, skipped?: string[]): Promise<FileEntry[]> {
+        await this.ignoreHandler.initialize();
+
+        const files: FileEntry[] = [];
+        const rootRemotePath = localToRemotePath(localPath, this.workspacePath, this.config.remotePath);
+
+        const collectFiles = async (remoteDir: string, localDir: string): Promise<void> => {
+            const items = await this.connectionPool.executeWithRetry(
+                (client) => client.listDirectory(remoteDir),
+                `list ${remoteDir}`
+            );
+
+            for (const item of items) {
+                if (item.name === '.' || item.name === '..') {
+                    continue;
+                }
+
+                const itemLocalPath = path.join(localDir, item.name);
+                const relativePath = getRelativePath(this.workspacePath, itemLocalPath);
+
+                if (this.ignoreHandler.isIgnored(relativePath)) {
+                    skipped?.push(item.type === 'directory' ? `${relativePath}/` : relativePath);
+                    continue;
+                }
+
+                if (item.type === 'directory') {
+                    await collectFiles(item.path, itemLocalPath);
+                } else if (item.type === 'file') {
+                    files.push({
+                        remotePath: item.path,
+                        localPath: itemLocalPath,
+                        relativePath,
+                        size: item.size,
+                        modifiedTime: item.modifiedTime
+                    });
+                }
+            }
+        };
+
+        await collectFiles(rootRemotePath, localPath);
+        return files;
+    }
+
+    /**
+     * Download a list of remote files collected by collectRemoteFiles()
+     * @param files Files to download
+     * @param onProgress Optional callback for progress reporting (current, total, fileName)
+     */
+    public async downloadFiles(
+        files: FileEntry[],
+        onProgress?: (current: number, total: number, fileName: string) => void
+    ): Promise<{ success: number; failed: number }> {
+        const result = { success: 0, failed: 0 };
+
+        await this.runParallel(files, async (file, i) => {
+            if (onProgress) {
+                onProgress(i + 1, files.length, path.basename(file.localPath));
+            }
+
+            const success = await this.downloadFile(file.remotePath, file.localPath);
+            if (success) {
+                result.success++;
+            } else {
+                result.failed++;
+            }
+        });
+
+        return result;
     }
 
     /**
@@ -424,9 +959,9 @@ export class FileWatcher {
     public async uploadFolder(
         localPath: string,
         onProgress?: (current: number, total: number, fileName: string) => void
-    ): Promise<{ success: number; failed: number }> {
+    ): Promise<{ success: number; failed: number; skipped: number }> {
         const fs = await import('fs');
-        const result = { success: 0, failed: 0 };
+        const result = { success: 0, failed: 0, skipped: 0 };
 
         // First, collect all files to upload
         const filesToUpload: Array<{ fullPath: string; relativePath: string }> = [];
@@ -454,24 +989,305 @@ export class FileWatcher {
         const totalFiles = filesToUpload.length;
 
         // Upload files with progress
-        for (let i = 0; i < filesToUpload.length; i++) {
-            const file = filesToUpload[i];
-            
+        await this.runParallel(filesToUpload, async (file, i) => {
             if (onProgress) {
                 onProgress(i + 1, totalFiles, path.basename(file.fullPath));
             }
 
-            const success = await this.uploadFile(file.fullPath);
+            const remotePath = localToRemotePath(file.fullPath, this.workspacePath, this.config.remotePath);
+            if (this.config.skipUnchanged && await this.manifest.isUnchanged(file.fullPath, remotePath)) {
+                Logger.debug(`Skipping unchanged file: ${file.relativePath}`);
+                result.skipped++;
+                return;
+            }
+
+            // Folder uploads are explicit and often previewed, don't ask per file
+            const success = await this.uploadFile(file.fullPath, true);
             if (success) {
                 result.success++;
             } else {
                 result.failed++;
             }
+        });
+
+        return result;
+    }
+
+    /**
+     * Run a task for every item, up to `concurrency` at once
+     * Items are started in order, so progress counts keep going up
+     */
+    private async runParallel<T>(items: T[], task: (item: T, index: number) => Promise<void>): Promise<void> {
+        let next = 0;
+        const worker = async (): Promise<void> => {
+            while (next < items.length) {
+                const index = next++;
+                await task(items[index], index);
+            }
+        };
+
+        const workers = Math.min(Math.max(this.config.concurrency || 3, 1), items.length);
+        await Promise.all(Array.from({ length: workers }, worker));
+    }
+
+    /**
+     * Collect all local files below a folder with size and modification time
+     * Ignored paths (relative to the workspace) are skipped
+     * @param localPath Local folder to walk
+     * @param skipped Optional array that receives the ignored relative paths
+     */
+    public async collectLocalFiles(localPath: string, skipped?: string[]): Promise<FileEntry[]> {
+        const fs = await import('fs');
+        await this.ignoreHandler.initialize();
+
+        const files: FileEntry[] = [];
+
+        const collectFiles = (dirPath: string): void => {
+            const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+
+            for (const entry of entries) {
+                const fullPath = path.join(dirPath, entry.name);
+                const relativePath = getRelativePath(this.workspacePath, fullPath);
+
+                if (this.ignoreHandler.isIgnored(relativePath)) {
+                    skipped?.push(entry.isDirectory() ? `${relativePath}/` : relativePath);
+                    continue;
+                }
+
+                if (entry.isDirectory()) {
+                    collectFiles(fullPath);
+                } else if (entry.isFile()) {
+                    const stat = fs.statSync(fullPath);
+                    files.push({
+                        remotePath: localToRemotePath(fullPath, this.workspacePath, this.config.remotePath),
+                        localPath: fullPath,
+                        relativePath,
+                        size: stat.size,
+                        modifiedTime: stat.mtime
+                    });
+                }
+            }
+        };
+
+        if (fs.existsSync(localPath)) {
+            collectFiles(localPath);
         }
+        return files;
+    }
+
+    /**
+     * Build the list of uploads a folder upload would perform, without transferring anything
+     * @param localPath Local folder to upload
+     */
+    public async planUploadFolder(localPath: string): Promise<SyncPlan> {
+        const skipped: string[] = [];
+        const localFiles = await this.collectLocalFiles(localPath, skipped);
+
+        const changedFiles: FileEntry[] = [];
+        for (const file of localFiles) {
+            if (this.config.skipUnchanged && await this.manifest.isUnchanged(file.localPath, file.remotePath)) {
+                continue;
+            }
+            changedFiles.push(file);
+        }
+
+        return {
+            mode: 'local-wins',
+            actions: changedFiles.map(file => ({
+                type: 'upload' as const,
+                relativePath: file.relativePath,
+                localPath: file.localPath,
+                remotePath: file.remotePath,
+                size: file.size,
+                modifiedTime: file.modifiedTime,
+                reason: this.manifest.get(file.remotePath) ? 'changed since last sync' : 'not synced yet'
+            })),
+            unchanged: localFiles.length - changedFiles.length,
+            skipped,
+            conflicts: []
+        };
+    }
+
+    /**
+     * Compare a local folder with its remote counterpart and build a sync plan
+     * @param localPath Local folder to sync
+     * @param mode Conflict resolution mode
+     */
+    public async planSync(localPath: string, mode: SyncMode): Promise<SyncPlan> {
+        const skipped: string[] = [];
+        const localFiles = await this.collectLocalFiles(localPath, skipped);
+
+        // A missing remote folder simply means everything is new locally
+        const rootRemotePath = localToRemotePath(localPath, this.workspacePath, this.config.remotePath);
+        const remoteExists = await this.connectionPool.executeWithRetry(
+            (client) => client.exists(rootRemotePath),
+            `check ${rootRemotePath}`
+        );
+        const remoteFiles = remoteExists ? await this.collectRemoteFiles(localPath, skipped) : [];
+
+        // FTP listings often only have minute precision
+        const toleranceMs = this.config.protocol === 'ftp' ? 60000 : 2000;
+        const history = await this.getChangesSinceSync(localFiles, remoteFiles);
+        const plan = buildSyncPlan(localFiles, remoteFiles, mode, toleranceMs, history);
+        plan.skipped = [...new Set(skipped)].sort();
+
+        Logger.info(`Sync plan (${mode}): ${plan.actions.length} actions, ${plan.unchanged} unchanged`);
+        for (const relativePath of plan.conflicts) {
+            Logger.warn(`[${this.getTargetName()}] ${relativePath} differs on both sides and neither is known to be newer, not synced`);
+        }
+        return plan;
+    }
+
+    /**
+     * Look up which side of each file was edited since its last sync
+     * Only needed for server files without an mtime (FTP servers without MLSD)
+     * and for files whose size differs, in case the mtimes are too close to tell
+     */
+    private async getChangesSinceSync(localFiles: FileEntry[], remoteFiles: FileEntry[]): Promise<Map<string, ChangesSinceSync>> {
+        const history: Map<string, ChangesSinceSync> = new Map();
+        const remoteByPath = new Map(remoteFiles.map(f => [f.relativePath, f]));
+
+        for (const local of localFiles) {
+            const remote = remoteByPath.get(local.relativePath);
+            const entry = remote && (!remote.modifiedTime || remote.size !== local.size)
+                ? this.manifest.get(remote.remotePath)
+                : undefined;
+            if (!remote || !entry) {
+                continue;
+            }
+
+            history.set(local.relativePath, {
+                localChanged: !await this.manifest.isUnchanged(local.localPath, remote.remotePath),
+                // Without a recorded server state the synced copy had the size of the local file
+                remoteChanged: entry.remote
+                    ? !SyncManifest.isSameRemote(entry.remote, SyncManifest.toRemoteState(remote))
+                    : entry.size !== remote.size
+            });
+        }
+        return history;
+    }
+
+    /**
+     * Execute sync actions one by one through the operation queue
+     * @param actions Actions from a sync plan
+     * @param onProgress Optional callback for progress reporting (current, total, fileName)
+     */
+    public async executeSyncActions(
+        actions: SyncAction[],
+        onProgress?: (current: number, total: number, fileName: string) => void
+    ): Promise<{ success: number; failed: number }> {
+        const result = { success: 0, failed: 0 };
+
+        await this.runParallel(actions, async (action, i) => {
+            if (onProgress) {
+                onProgress(i + 1, actions.length, path.basename(action.localPath));
+            }
+
+            try {
+                // Enqueue only as many as run at once so large plans don't overflow the queue
+                // Stalled transfers are timed out by the connection pool, like file changes
+                await this.operationQueue.enqueue(
+                    () => this.executeSyncAction(action),
+                    { priority: 1, timeout: 0 }
+                );
+                result.success++;
+            } catch (error) {
+                result.failed++;
+                Logger.error(`Sync ${action.type} failed for ${action.relativePath}: ${(error as Error).message}`);
+            }
+        });
 
         return result;
     }
 
+    /**
+     * Execute a single sync action
+     */
+    private async executeSyncAction(action: SyncAction): Promise<void> {
+        const fs = await import('fs');
+
+        switch (action.type) {
+            case 'upload': {
+                const success = await this.uploadFile(action.localPath, true);
+                if (!success) {
+                    throw new Error('Upload failed');
+                }
+                break;
+            }
+            case 'download': {
+                const success = await this.downloadFile(action.remotePath, action.localPath);
+                if (!success) {
+                    throw new Error('Download failed');
+                }
+                // Align the local timestamp with the server so the next sync sees both as equal
+                if (action.modifiedTime) {
+                    fs.utimesSync(action.localPath, new Date(), action.modifiedTime);
+                }
+                await this.manifest.record(action.localPath, action.remotePath, this.manifest.get(action.remotePath)?.remote);
+                break;
+            }
+            case 'delete-remote':
+                await this.connectionPool.executeWithRetry(
+                    (client) => client.deleteFile(action.remotePath),
+                    `delete ${action.relativePath}`
+                );
+                this.manifest.remove(action.remotePath);
+                this.stats.deletesSucceeded++;
+                break;
+            case 'delete-local':
+                // Don't let the watcher propagate our own deletion back to the server
+                this.activeDownloads.add(action.localPath);
+                try {
+                    fs.unlinkSync(action.localPath);
+                    this.manifest.remove(action.remotePath);
+                    Logger.success(`Deleted local file: ${action.relativePath}`);
+                } finally {
+                    setTimeout(() => {
+                        this.activeDownloads.delete(action.localPath);
+                    }, 1000);
+                }
+                break;
+        }
+
+        this.stats.lastActivity = new Date();
+    }
+
+    /**
+     * Queue uploads for previously synced files that changed since their last sync
+     * Files that were never synced are left alone so a first start doesn't upload everything
+     */
+    private async queueChangedFiles(): Promise<void> {
+        const fs = await import('fs');
+        let queued = 0;
+
+        for (const remotePath of this.manifest.getRemotePaths()) {
+            const localPath = remoteToLocalPath(remotePath, this.config.remotePath, this.workspacePath);
+            if (!fs.existsSync(localPath)) {
+                continue;
+            }
+
+            const relativePath = getRelativePath(this.workspacePath, localPath);
+            if (this.ignoreHandler.isIgnored(relativePath)) {
+                continue;
+            }
+
+            if (!await this.manifest.isUnchanged(localPath, remotePath)) {
+                this.queueFileChange('changed', vscode.Uri.file(localPath), relativePath);
+                queued++;
+            }
+        }
+
+        Logger.info(`Queued ${queued} files changed since the last sync`);
+    }
+
+    /**
+     * Forget all recorded sync state for this workspace and server
+     */
+    public clearManifest(): void {
+        this.manifest.clear();
+        Logger.info('Sync manifest cleared');
+    }
+
     /**
      * Get file count in folder (for progress estimation)
      */
@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HostKeyError, HostKeyPrompt, matchesHostPattern } from '../clients';
+import { Logger } from '../utils';
+
+const STATE_KEY = 'ftpSync.trustedHostKeys';
+
+/**
+ * Trusted keys per host ("host" or "[host]:port") and key type, base64 encoded
+ */
+type TrustedKeys = Record<string, Record<string, string>>;
+
+/**
+ * A key for the host found in a known_hosts file
+ */
+interface KnownHostKey {
+    type: string;
+    key: string;
+    revoked: boolean;
+    source: string; // "file:line"
+}
+
+/**
+ * Verifies SSH host keys against ~/.ssh/known_hosts and keys trusted in FTP Sync
+ * Unknown hosts are confirmed by the user (trust on first use), changed keys are rejected
+ */
+class HostKeyStore {
+    private globalState: vscode.Memento | undefined;
+    private sessionKeys: TrustedKeys = {}; // Trusted for this session only
+    private pendingPrompts: Map<string, Promise<boolean>> = new Map();
+
+    /**
+     * Attach the storage for keys trusted in FTP Sync
+     */
+    public init(globalState: vscode.Memento): void {
+        this.globalState = globalState;
+    }
+
+    /**
+     * Get the known_hosts name of a server, e.g. "example.com" or "[example.com]:2222"
+     */
+    public getHostId(host: string, port: number): string {
+        return port === 22 ? host : `[${host}]:${port}`;
+    }
+
+    /**
+     * Get the OpenSSH style fingerprint of a key, e.g. "SHA256:abc..."
+     */
+    public getFingerprint(key: Buffer): string {
+        return `SHA256:${crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+    }
+
+    /**
+     * Check a host key, asking the user for unknown hosts
+     */
+    public readonly verify: HostKeyPrompt = async ({ host, port, key }) => {
+        const hostId = this.getHostId(host, port);
+        const type = this.getKeyType(key);
+        const encoded = key.toString('base64');
+
+        // 1. known_hosts of OpenSSH
+        const known = this.findKnownHostKeys(hostId);
+        const revoked = known.find(entry => entry.revoked && entry.key === encoded);
+        if (revoked) {
+            throw new HostKeyError(`Host key of ${hostId} is marked as revoked in ${revoked.source}`);
+        }
+        const knownOfType = known.filter(entry => !entry.revoked && entry.type === type);
+        if (knownOfType.some(entry => entry.key === encoded)) {
+            Logger.debug(`Host key of ${hostId} found in known_hosts`);
+            return true;
+        }
+        if (knownOfType.length > 0) {
+            throw this.createMismatchError(hostId, type, key, knownOfType[0].key,
+                `${knownOfType[0].source} (remove it with: ssh-keygen -R "${hostId}")`);
+        }
+
+        // 2. Keys trusted in FTP Sync
+        const trusted = this.getTrustedKeys()[hostId]?.[type] ?? this.sessionKeys[hostId]?.[type];
+        if (trusted === encoded) {
+            return true;
+        }
+        if (trusted) {
+            throw this.createMismatchError(hostId, type, key, trusted,
+                'FTP Sync (remove it with "FTP Sync: Forget Trusted Host Keys")');
+        }
+
+        // 3. Unknown host - ask once, even if several connections are opened at the same time
+        const promptKey = `${hostId} ${type}`;
+        let pending = this.pendingPrompts.get(promptKey);
+        if (!pending) {
+            pending = this.confirmUnknownHost(hostId, type, key).finally(() => this.pendingPrompts.delete(promptKey));
+            this.pendingPrompts.set(promptKey, pending);
+        }
+        return pending;
+    };
+
+    /**
+     * Get the hosts with keys trusted in FTP Sync
+     */
+    public getTrustedHosts(): string[] {
+        return Object.keys(this.getTrustedKeys());
+    }
+
+    /**
+     * Forget the trusted keys of a host
+     */
+    public async forget(hostId: string): Promise<void> {
+        const keys = { ...this.getTrustedKeys() };
+        delete keys[hostId];
+        delete this.sessionKeys[hostId];
+        await this.globalState?.update(STATE_KEY, keys);
+        Logger.info(`Forgot trusted host key of ${hostId}`);
+    }
+
+    /**
+     * Show the fingerprint of an unknown host and let the user decide
+     */
+    private async confirmUnknownHost(hostId: string, type: string, key: Buffer): Promise<boolean> {
+        const fingerprint = this.getFingerprint(key);
+        Logger.info(`Unknown host ${hostId}, ${type} key fingerprint ${fingerprint}`);
+
+        const choice = await vscode.window.showWarningMessage(
+            `The authenticity of host ${hostId} can't be established.`,
+            {
+                modal: true,
+                detail: `${type} key fingerprint is ${fingerprint}.\n\n` +
+                    'Compare it with the fingerprint shown by your hosting provider or by ' +
+                    '"ssh-keygen -lf /etc/ssh/ssh_host_*_key.pub" on the server before trusting it.'
+            },
+            'Trust and Remember', 'Connect Once'
+        );
+
+        if (choice === 'Trust and Remember') {
+            const keys = { ...this.getTrustedKeys() };
+            keys[hostId] = { ...keys[hostId], [type]: key.toString('base64') };
+            await this.globalState?.update(STATE_KEY, keys);
+            Logger.info(`Trusted host key of ${hostId} (${fingerprint})`);
+            return true;
+        }
+
+        if (choice === 'Connect Once') {
+            this.sessionKeys[hostId] = { ...this.sessionKeys[hostId], [type]: key.toString('base64') };
+            return true;
+        }
+
+        Logger.warn(`Host key of ${hostId} was not trusted`);
+        return false;
+    }
+
+    /**
+     * Build the error for a host whose key differs from the known one
+     */
+    private createMismatchError(hostId: string, type: string, key: Buffer, expected: string, source: string): HostKeyError {
+        const message = `Host key of ${hostId} has changed! Someone could be intercepting the connection, ` +
+            'or the server was reinstalled. ' +
+            `Expected ${type} ${this.getFingerprint(Buffer.from(expected, 'base64'))}, ` +
+            `got ${this.getFingerprint(key)}. Known key is stored in ${source}.`;
+        Logger.error(message);
+        return new HostKeyError(message);
+    }
+
+    /**
+     * Read the key type (e.g. "ssh-ed25519") from a key in SSH wire format
+     */
+    private getKeyType(key: Buffer): string {
+        if (key.length < 4) {
+            return 'unknown';
+        }
+        const length = key.readUInt32BE(0);
+        return key.subarray(4, 4 + length).toString('ascii');
+    }
+
+    /**
+     * Get the keys trusted in FTP Sync
+     */
+    private getTrustedKeys(): TrustedKeys {
+        return this.globalState?.get<TrustedKeys>(STATE_KEY) || {};
+    }
+
+    /**
+     * Find all keys for a host in the user's and the system's known_hosts files
+     * Supports hashed host names, wildcards, [host]:port and the @revoked marker
+     */
+    private findKnownHostKeys(hostId: string): KnownHostKey[] {
+        const files = [
+            path.join(os.homedir(), '.ssh', 'known_hosts'),
+            '/etc/ssh/ssh_known_hosts'
+        ];
+        const keys: KnownHostKey[] = [];
+
+        for (const file of files) {
+            let content: string;
+            try {
+                content = fs.readFileSync(file, 'utf-8');
+            } catch {
+                continue;
+            }
+
+            content.split(/\r?\n/).forEach((rawLine, index) => {
+                const fields = rawLine.trim().split(/\s+/);
+                if (!fields[0] || fields[0].startsWith('#')) {
+                    return;
+                }
+
+                let marker: string | undefined;
+                if (fields[0].startsWith('@')) {
+                    marker = fields.shift();
+                }
+                // Certificate authorities are not supported
+                if (marker === '@cert-authority' || fields.length < 3) {
+                    return;
+                }
+
+                const [hosts, type, key] = fields;
+                if (this.matchesKnownHost(hostId, hosts)) {
+                    keys.push({ type, key, revoked: marker === '@revoked', source: `${file}:${index + 1}` });
+                }
+            });
+        }
+
+        return keys;
+    }
+
+    /**
+     * Check the host field of a known_hosts line
+     */
+    private matchesKnownHost(hostId: string, hosts: string): boolean {
+        // Hashed: |1|salt|hash
+        if (hosts.startsWith('|1|')) {
+            const [, , salt, hash] = hosts.split('|');
+            const computed = crypto.createHmac('sha1', Buffer.from(salt, 'base64')).update(hostId).digest('base64');
+            return computed === hash;
+        }
+
+        return matchesHostPattern(hostId, hosts.split(','));
+    }
+}
+
+// Export singleton
+export const hostKeyStore = new HostKeyStore();
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import ignore, { Ignore } from 'ignore';
+import { PARTIAL_SUFFIX } from '../clients';
 import { Logger, normalizePath } from '../utils';
 
 /**
@@ -93,6 +94,11 @@ export class IgnoreHandler {
             return false;
         }
 
+        // Unfinished transfers are never synced
+        if (normalized.endsWith(PARTIAL_SUFFIX)) {
+            return true;
+        }
+
         try {
             return this.ignoreInstance.ignores(normalized);
         } catch (error) {
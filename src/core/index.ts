@@ -1,5 +1,10 @@
 export * from './configManager';
 export * from './fileWatcher';
+export * from './remoteWatcher';
 export * from './ignoreHandler';
 export * from './connectionPool';
 export * from './operationQueue';
+export * from './syncPlanner';
+export * from './syncManifest';
+export * from './credentialStore';
+export * from './hostKeyStore';
@@ -8,7 +8,7 @@ export interface QueuedOperation<T = unknown> {
     reject: (error: Error) => void;
     priority: number;
     addedAt: number;
-    timeout: number;
+    timeout: number; // 0 = no limit
     retries: number;
     maxRetries: number;
 }
@@ -18,7 +18,7 @@ export type QueueStatus = 'idle' | 'processing' | 'paused' | 'error';
 /**
  * Operation queue with prioritization and timeout handling
  * Prevents operations from hanging indefinitely
- * Uses sequential processing by default to avoid connection overload
+ * Runs up to `concurrency` operations at once, the connection pool gives each its own connection
  */
 export class OperationQueue extends EventEmitter {
     private queue: QueuedOperation[] = [];
@@ -34,8 +34,7 @@ export class OperationQueue extends EventEmitter {
 
     constructor(concurrency = 1, defaultTimeout = 30000) {
         super();
-        // Limit concurrency to 1 to prevent connection issues
-        this.concurrency = Math.min(concurrency, 1);
+        this.concurrency = Math.max(concurrency, 1);
         this.defaultTimeout = defaultTimeout;
     }
 
@@ -109,7 +108,7 @@ export class OperationQueue extends EventEmitter {
 
             // Check if operation has been waiting too long
             const waitTime = Date.now() - operation.addedAt;
-            if (waitTime > operation.timeout * 2) {
+            if (operation.timeout > 0 && waitTime > operation.timeout * 2) {
                 Logger.warn(`Operation ${operation.id} expired after waiting ${waitTime}ms`);
                 operation.reject(new Error('Operation expired in queue'));
                 continue;
@@ -129,11 +128,13 @@ export class OperationQueue extends EventEmitter {
         this.activeOperations++;
 
         try {
-            const result = await this.withTimeout(
-                op.operation(),
-                op.timeout,
-                `Operation ${op.id} timed out after ${op.timeout}ms`
-            );
+            const result = op.timeout > 0
+                ? await this.withTimeout(
+                    op.operation(),
+                    op.timeout,
+                    `Operation ${op.id} timed out after ${op.timeout}ms`
+                )
+                : await op.operation();
 
             op.resolve(result);
             Logger.debug(`Operation ${op.id} completed successfully`);
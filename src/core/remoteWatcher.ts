@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils';
+import { FileWatcher } from './fileWatcher';
+import { FileEntry } from './syncPlanner';
+import { SyncManifest } from './syncManifest';
+
+export type RemoteChangeType = 'created' | 'changed' | 'deleted';
+
+/**
+ * A file that was changed on the server by someone else
+ */
+export interface RemoteChange {
+    type: RemoteChangeType;
+    remotePath: string;
+    localPath: string;
+    relativePath: string;
+    downloaded: boolean; // Already pulled into the workspace (action "download")
+}
+
+// Listing a large tree takes a while, so don't poll more often than this (seconds)
+const MIN_INTERVAL = 10;
+
+/**
+ * Polls the server of a file watcher for changes made outside this workspace
+ * Every poll lists the watched directories and compares them with the previous listing
+ * New and changed files are downloaded or only reported, depending on the configuration
+ * Files deleted on the server are only reported, never deleted locally
+ */
+export class RemoteWatcher {
+    private workspacePath: string;
+    private fileWatcher: FileWatcher;
+    private snapshot: Map<string, FileEntry> | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private isPolling = false;
+    private onChangesCallback?: (changes: RemoteChange[]) => void;
+
+    constructor(workspacePath: string, fileWatcher: FileWatcher) {
+        this.workspacePath = workspacePath;
+        this.fileWatcher = fileWatcher;
+    }
+
+    /**
+     * Start polling; the first listing only becomes the baseline
+     * @returns Resolves when the baseline was listed (never rejects)
+     */
+    public start(): Promise<void> {
+        if (this.timer) {
+            return Promise.resolve();
+        }
+
+        const interval = Math.max(this.fileWatcher.getConfig().remoteWatcher.interval || 0, MIN_INTERVAL);
+        this.timer = setInterval(() => this.poll(), interval * 1000);
+        Logger.info(`[${this.fileWatcher.getTargetName()}] Checking the server for changes every ${interval}s`);
+        return this.poll();
+    }
+
+    /**
+     * Stop polling and forget the last listing
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        this.snapshot = undefined;
+    }
+
+    /**
+     * Check if polling is running
+     */
+    public isActive(): boolean {
+        return this.timer !== undefined;
+    }
+
+    /**
+     * Set callback for changes found on the server
+     */
+    public onChanges(callback: (changes: RemoteChange[]) => void): void {
+        this.onChangesCallback = callback;
+    }
+
+    /**
+     * Compare the server with the last listing and handle the differences
+     * Runs on the timer, call it directly to check right away
+     * Errors are logged, the returned promise never rejects
+     */
+    public async poll(): Promise<void> {
+        // A slow listing must not overlap with the next one
+        if (this.isPolling) {
+            return;
+        }
+        this.isPolling = true;
+
+        try {
+            const files = await this.listFiles();
+            const previous = this.snapshot;
+            if (!this.isActive()) {
+                return;
+            }
+            this.snapshot = files;
+            if (!previous) {
+                Logger.debug(`[${this.fileWatcher.getTargetName()}] Remote watcher baseline: ${files.size} files`);
+                return;
+            }
+
+            const changes = await this.applyChanges(this.compare(previous, files));
+            if (changes.length > 0 && this.onChangesCallback) {
+                this.onChangesCallback(changes);
+            }
+        } catch (error) {
+            // Keep the old listing, otherwise every file would look new next time
+            Logger.warn(`[${this.fileWatcher.getTargetName()}] Could not check the server for changes: ${(error as Error).message}`);
+        } finally {
+            this.isPolling = false;
+        }
+    }
+
+    /**
+     * List all files below the watched directories, keyed by remote path
+     * Ignored paths are skipped
+     */
+    private async listFiles(): Promise<Map<string, FileEntry>> {
+        const paths = this.fileWatcher.getConfig().remoteWatcher.paths || [];
+        const roots = paths.length > 0
+            ? paths.map(dir => path.join(this.workspacePath, dir.replace(/^\/+/, '')))
+            : [this.workspacePath];
+
+        const files: Map<string, FileEntry> = new Map();
+        for (const root of roots) {
+            for (const file of await this.fileWatcher.collectRemoteFiles(root)) {
+                files.set(file.remotePath, file);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Find files that were added, changed or deleted between two listings
+     * Changes made by our own uploads and deletes are left out
+     */
+    private compare(previous: Map<string, FileEntry>, current: Map<string, FileEntry>): RemoteChange[] {
+        const changes: RemoteChange[] = [];
+
+        for (const [remotePath, file] of current) {
+            const old = previous.get(remotePath);
+            // LIST-only FTP servers report no mtime, so those files only count as changed when the size differs
+            if (old && SyncManifest.isSameRemote(SyncManifest.toRemoteState(old), SyncManifest.toRemoteState(file))) {
+                continue;
+            }
+            if (this.fileWatcher.isSyncedRemote(file)) {
+                continue;
+            }
+            changes.push({
+                type: old ? 'changed' : 'created',
+                remotePath,
+                localPath: file.localPath,
+                relativePath: file.relativePath,
+                downloaded: false
+            });
+        }
+
+        for (const [remotePath, file] of previous) {
+            if (!current.has(remotePath) && fs.existsSync(file.localPath)) {
+                changes.push({
+                    type: 'deleted',
+                    remotePath,
+                    localPath: file.localPath,
+                    relativePath: file.relativePath,
+                    downloaded: false
+                });
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Download new and changed files if configured
+     * Files that were also edited locally are left alone and only reported
+     */
+    private async applyChanges(changes: RemoteChange[]): Promise<RemoteChange[]> {
+        if (this.fileWatcher.getConfig().remoteWatcher.action !== 'download') {
+            return changes;
+        }
+
+        for (const change of changes) {
+            if (change.type === 'deleted') {
+                continue;
+            }
+            if (await this.fileWatcher.hasLocalChanges(change.localPath, change.remotePath)) {
+                Logger.warn(`[${this.fileWatcher.getTargetName()}] ${change.relativePath} changed on the server and locally, not downloaded`);
+                continue;
+            }
+            change.downloaded = await this.fileWatcher.downloadFile(change.remotePath, change.localPath);
+        }
+
+        return changes;
+    }
+}
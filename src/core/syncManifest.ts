@@ -0,0 +1,317 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Logger } from '../utils';
+
+const MANIFEST_FILENAME = '.ftpsync-manifest.json';
+const MANIFEST_DIR = '.vscode';
+const MANIFEST_VERSION = 1;
+
+/**
+ * State of the server copy right after a transfer, to notice later changes by others
+ */
+export interface RemoteState {
+    size: number;
+    mtime?: number; // Unknown when the server does not report modification times
+}
+
+/**
+ * Content state of a local file
+ */
+export interface LocalState {
+    size: number;
+    mtime: number;
+    hash: string;
+}
+
+/**
+ * State of a file at its last successful transfer
+ */
+export interface ManifestEntry {
+    size: number;
+    mtime: number;
+    hash: string;
+    syncedAt: number;
+    remote?: RemoteState;
+}
+
+interface ManifestFile {
+    version: number;
+    targets: Record<string, Record<string, ManifestEntry>>;
+}
+
+/**
+ * Persisted record of what was last uploaded or downloaded per remote path
+ * Stored in .vscode/.ftpsync-manifest.json, one section per server target
+ */
+export class SyncManifest {
+    private manifestPath: string;
+    private targetKey: string;
+    private entries: Map<string, ManifestEntry> = new Map();
+    private loaded = false;
+    private saveTimer: NodeJS.Timeout | null = null;
+    private saveDelay = 1000;
+
+    /**
+     * @param workspacePath Workspace folder the manifest belongs to
+     * @param targetKey Identifies the server, e.g. "user@host:22"
+     */
+    constructor(workspacePath: string, targetKey: string) {
+        this.manifestPath = path.join(workspacePath, MANIFEST_DIR, MANIFEST_FILENAME);
+        this.targetKey = targetKey;
+    }
+
+    /**
+     * Get the manifest file path
+     */
+    public getPath(): string {
+        return this.manifestPath;
+    }
+
+    /**
+     * Load entries for this target from disk
+     */
+    public load(): void {
+        if (this.loaded) {
+            return;
+        }
+
+        const manifest = this.readFile();
+        const target = manifest.targets[this.targetKey] || {};
+        this.entries = new Map(Object.entries(target));
+        this.loaded = true;
+        Logger.debug(`Loaded ${this.entries.size} manifest entries for ${this.targetKey}`);
+    }
+
+    /**
+     * Number of recorded files
+     */
+    public get size(): number {
+        this.load();
+        return this.entries.size;
+    }
+
+    /**
+     * Get the recorded entry for a remote path
+     */
+    public get(remotePath: string): ManifestEntry | undefined {
+        this.load();
+        return this.entries.get(remotePath);
+    }
+
+    /**
+     * Get all recorded remote paths
+     */
+    public getRemotePaths(): string[] {
+        this.load();
+        return [...this.entries.keys()];
+    }
+
+    /**
+     * Check whether a local file still matches what was last synced to remotePath
+     * Size and mtime are checked first; the content hash is only computed when the
+     * size matches but the mtime differs (e.g. after a checkout or touch)
+     */
+    public async isUnchanged(localPath: string, remotePath: string): Promise<boolean> {
+        const entry = this.get(remotePath);
+        if (!entry) {
+            return false;
+        }
+
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(localPath);
+        } catch {
+            return false;
+        }
+
+        if (stat.size !== entry.size) {
+            return false;
+        }
+
+        if (stat.mtimeMs === entry.mtime) {
+            return true;
+        }
+
+        const hash = await SyncManifest.hashFile(localPath);
+        if (hash !== entry.hash) {
+            return false;
+        }
+
+        // Content is identical - remember the new mtime to skip hashing next time
+        this.entries.set(remotePath, { ...entry, mtime: stat.mtimeMs });
+        this.scheduleSave();
+        return true;
+    }
+
+    /**
+     * Record the state of a local file after a successful transfer
+     * @param remote State of the server copy after the transfer, if known
+     * @param local State captured before an upload started; read now if omitted
+     */
+    public async record(localPath: string, remotePath: string, remote?: RemoteState, local?: LocalState): Promise<void> {
+        this.load();
+
+        try {
+            const state = local ?? await SyncManifest.captureLocalState(localPath);
+            this.entries.set(remotePath, {
+                ...state,
+                syncedAt: Date.now(),
+                remote
+            });
+            this.scheduleSave();
+        } catch (error) {
+            Logger.debug(`Could not record manifest entry for ${localPath}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Read the size, mtime and hash of a local file
+     * Uploads capture this before the transfer, so a save during the upload
+     * doesn't get recorded as the uploaded content
+     */
+    public static async captureLocalState(localPath: string): Promise<LocalState> {
+        const stat = fs.statSync(localPath);
+        const hash = await SyncManifest.hashFile(localPath);
+        return { size: stat.size, mtime: stat.mtimeMs, hash };
+    }
+
+    /**
+     * Get the state of a listed server file
+     */
+    public static toRemoteState(info: { size: number; modifiedTime?: Date }): RemoteState {
+        return { size: info.size, mtime: info.modifiedTime?.getTime() };
+    }
+
+    /**
+     * Check whether two states describe the same server copy
+     * Without a known mtime on both sides only the size can be compared
+     */
+    public static isSameRemote(a: RemoteState, b: RemoteState): boolean {
+        if (a.size !== b.size) {
+            return false;
+        }
+        return a.mtime === undefined || b.mtime === undefined || a.mtime === b.mtime;
+    }
+
+    /**
+     * Forget a remote path (e.g. after it was deleted)
+     */
+    public remove(remotePath: string): void {
+        this.load();
+        if (this.entries.delete(remotePath)) {
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Move the entries of a renamed file or folder to its new remote path
+     */
+    public rename(oldRemotePath: string, newRemotePath: string): void {
+        this.load();
+        let moved = false;
+
+        for (const [remotePath, entry] of [...this.entries]) {
+            if (remotePath === oldRemotePath || remotePath.startsWith(`${oldRemotePath}/`)) {
+                this.entries.delete(remotePath);
+                this.entries.set(newRemotePath + remotePath.slice(oldRemotePath.length), entry);
+                moved = true;
+            }
+        }
+
+        if (moved) {
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Forget all entries for this target
+     */
+    public clear(): void {
+        this.entries.clear();
+        this.loaded = true;
+        this.save();
+    }
+
+    /**
+     * Write pending changes immediately
+     */
+    public flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+            this.save();
+        }
+    }
+
+    /**
+     * Compute the SHA-256 hash of a file
+     */
+    public static hashFile(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = crypto.createHash('sha256');
+            const stream = fs.createReadStream(filePath);
+            stream.on('data', (chunk) => hash.update(chunk));
+            stream.on('end', () => resolve(hash.digest('hex')));
+            stream.on('error', reject);
+        });
+    }
+
+    /**
+     * Compute the SHA-256 hash of a file, blocking until it is read
+     * For checks inside event handlers that can't wait
+     */
+    public static hashFileSync(filePath: string): string {
+        return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+    }
+
+    /**
+     * Debounce writes so folder uploads don't rewrite the file for every entry
+     */
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, this.saveDelay);
+    }
+
+    /**
+     * Write this target's section, keeping the sections of other targets
+     */
+    private save(): void {
+        try {
+            const manifest = this.readFile();
+            manifest.targets[this.targetKey] = Object.fromEntries(this.entries);
+
+            const dir = path.dirname(this.manifestPath);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true });
+            }
+            fs.writeFileSync(this.manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+        } catch (error) {
+            Logger.warn(`Failed to save sync manifest: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Read the manifest file, returning an empty manifest if missing or invalid
+     */
+    private readFile(): ManifestFile {
+        try {
+            if (fs.existsSync(this.manifestPath)) {
+                const manifest = JSON.parse(fs.readFileSync(this.manifestPath, 'utf-8')) as ManifestFile;
+                if (manifest.version === MANIFEST_VERSION && manifest.targets) {
+                    return manifest;
+                }
+                Logger.warn('Sync manifest has an unknown format and will be replaced');
+            }
+        } catch (error) {
+            Logger.warn(`Failed to read sync manifest: ${(error as Error).message}`);
+        }
+
+        return { version: MANIFEST_VERSION, targets: {} };
+    }
+}
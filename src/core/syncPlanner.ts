@@ -0,0 +1,173 @@
+/**
+ * Sync planning - compares local and remote file lists and decides what to transfer
+ */
+
+/**
+ * How conflicts between local and remote files are resolved
+ * - local-wins: remote becomes a mirror of the local folder
+ * - remote-wins: local folder becomes a mirror of the remote folder
+ * - newer-wins: the newer copy of each file wins, nothing is deleted
+ */
+export type SyncMode = 'local-wins' | 'remote-wins' | 'newer-wins';
+
+export type SyncActionType = 'upload' | 'download' | 'delete-remote' | 'delete-local';
+
+/**
+ * A file found on either side of a sync
+ */
+export interface FileEntry {
+    remotePath: string;
+    localPath: string;
+    relativePath: string;
+    size: number;
+    modifiedTime?: Date; // Unknown for server files when the server does not report it
+}
+
+/**
+ * A single planned sync step
+ */
+export interface SyncAction {
+    type: SyncActionType;
+    relativePath: string;
+    localPath: string;
+    remotePath: string;
+    size: number;
+    modifiedTime?: Date;
+    reason: string;
+}
+
+/**
+ * Which sides of a file were edited since its last sync, from the sync manifest
+ */
+export interface ChangesSinceSync {
+    localChanged: boolean;
+    remoteChanged: boolean;
+}
+
+export interface SyncPlan {
+    mode: SyncMode;
+    actions: SyncAction[];
+    unchanged: number;
+    skipped: string[]; // Relative paths excluded by ignore rules
+    conflicts: string[]; // Relative paths that differ without a side known to be newer, left alone
+}
+
+/**
+ * Build a sync plan from the local and remote file lists
+ * @param localFiles Files found locally
+ * @param remoteFiles Files found on the server
+ * @param mode Conflict resolution mode
+ * @param toleranceMs Modification times closer than this are treated as equal
+ * @param history Changes since the last sync per relative path, used when the modification times
+ *                don't tell which side is newer
+ */
+export function buildSyncPlan(
+    localFiles: FileEntry[],
+    remoteFiles: FileEntry[],
+    mode: SyncMode,
+    toleranceMs = 2000,
+    history: Map<string, ChangesSinceSync> = new Map()
+): SyncPlan {
+    const plan: SyncPlan = { mode, actions: [], unchanged: 0, skipped: [], conflicts: [] };
+    const remoteByPath = new Map(remoteFiles.map(f => [f.relativePath, f]));
+
+    for (const local of localFiles) {
+        const remote = remoteByPath.get(local.relativePath);
+        remoteByPath.delete(local.relativePath);
+
+        if (!remote) {
+            if (mode === 'remote-wins') {
+                plan.actions.push(createAction('delete-local', local, 'not on server'));
+            } else {
+                plan.actions.push(createAction('upload', local, 'new local file'));
+            }
+            continue;
+        }
+
+        const sizeDiffers = local.size !== remote.size;
+        const timeDiff = local.modifiedTime && remote.modifiedTime
+            ? local.modifiedTime.getTime() - remote.modifiedTime.getTime()
+            : undefined;
+        let localNewer: boolean;
+        let remoteNewer: boolean;
+        if (timeDiff !== undefined && Math.abs(timeDiff) > toleranceMs) {
+            localNewer = timeDiff > 0;
+            remoteNewer = timeDiff < 0;
+        } else {
+            // Without a server mtime, or with equal ones, only the last sync tells which side was edited since
+            const changes = history.get(local.relativePath);
+            localNewer = !!changes?.localChanged && !changes.remoteChanged;
+            remoteNewer = !!changes?.remoteChanged && !changes.localChanged;
+        }
+
+        switch (mode) {
+            case 'local-wins':
+                if (sizeDiffers || localNewer) {
+                    plan.actions.push(createAction('upload', local, sizeDiffers ? 'size differs' : 'local is newer'));
+                } else {
+                    plan.unchanged++;
+                }
+                break;
+            case 'remote-wins':
+                if (sizeDiffers || remoteNewer) {
+                    plan.actions.push(createAction('download', remote, sizeDiffers ? 'size differs' : 'remote is newer'));
+                } else {
+                    plan.unchanged++;
+                }
+                break;
+            case 'newer-wins':
+                if (localNewer) {
+                    plan.actions.push(createAction('upload', local, 'local is newer'));
+                } else if (remoteNewer) {
+                    plan.actions.push(createAction('download', remote, 'remote is newer'));
+                } else if (sizeDiffers) {
+                    // Edited on both sides, or never synced - neither copy may overwrite the other
+                    plan.conflicts.push(local.relativePath);
+                } else {
+                    plan.unchanged++;
+                }
+                break;
+        }
+    }
+
+    // Whatever is left only exists on the server
+    for (const remote of remoteByPath.values()) {
+        if (mode === 'local-wins') {
+            plan.actions.push(createAction('delete-remote', remote, 'not in local folder'));
+        } else {
+            plan.actions.push(createAction('download', remote, 'new remote file'));
+        }
+    }
+
+    return plan;
+}
+
+/**
+ * Summarize a plan as counts per action type
+ */
+export function summarizeSyncPlan(plan: SyncPlan): Record<SyncActionType, number> {
+    const summary: Record<SyncActionType, number> = {
+        'upload': 0,
+        'download': 0,
+        'delete-remote': 0,
+        'delete-local': 0
+    };
+
+    for (const action of plan.actions) {
+        summary[action.type]++;
+    }
+
+    return summary;
+}
+
+function createAction(type: SyncActionType, entry: FileEntry, reason: string): SyncAction {
+    return {
+        type,
+        relativePath: entry.relativePath,
+        localPath: entry.localPath,
+        remotePath: entry.remotePath,
+        size: entry.size,
+        modifiedTime: entry.modifiedTime,
+        reason
+    };
+}
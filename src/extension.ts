@@ -1,13 +1,15 @@
 import * as vscode from 'vscode';
-import { ConfigManager } from './core';
+import { ConfigManager, credentialStore, hostKeyStore } from './core';
 import { CommandHandler } from './commands';
-import { StatusBar, FtpExplorerProvider, FtpTreeItem } from './ui';
+import { StatusBar, FtpExplorerProvider, FtpTreeItem, TransferPreview, RemoteFileSystemProvider } from './ui';
 import { Logger, showErrorMessage } from './utils';
 
 let configManager: ConfigManager;
 let commandHandler: CommandHandler;
 let statusBar: StatusBar;
 let ftpExplorer: FtpExplorerProvider;
+let transferPreview: TransferPreview;
+let remoteFileSystem: RemoteFileSystemProvider;
 
 /**
  * Extension activation
@@ -25,8 +27,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         // Always show status bar
         statusBar.show();
 
+        // Keep passwords and passphrases in the OS keychain, trusted host keys in global state
+        credentialStore.init(context.secrets);
+        hostKeyStore.init(context.globalState);
+
         // Initialize config manager
-        configManager = new ConfigManager();
+        configManager = new ConfigManager(context.workspaceState);
         await configManager.initialize();
         context.subscriptions.push({ dispose: () => configManager.dispose() });
 
@@ -40,8 +46,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             statusBar.setState('unconfigured');
         }
 
+        // Initialize dry-run preview provider
+        transferPreview = new TransferPreview();
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(TransferPreview.scheme, transferPreview),
+            { dispose: () => transferPreview.dispose() }
+        );
+
+        // Open remote files in editor tabs (ftpsync://<profile>/path)
+        remoteFileSystem = new RemoteFileSystemProvider(configManager);
+        context.subscriptions.push(
+            vscode.workspace.registerFileSystemProvider(RemoteFileSystemProvider.scheme, remoteFileSystem, { isCaseSensitive: true }),
+            { dispose: () => remoteFileSystem.dispose() }
+        );
+
         // Initialize command handler
-        commandHandler = new CommandHandler(configManager, statusBar);
+        commandHandler = new CommandHandler(configManager, statusBar, transferPreview);
         commandHandler.registerCommands(context);
         context.subscriptions.push({ dispose: () => commandHandler.dispose() });
 
@@ -49,8 +69,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         ftpExplorer = new FtpExplorerProvider(configManager);
         const treeView = vscode.window.createTreeView('ftpExplorerView', {
             treeDataProvider: ftpExplorer,
+            dragAndDropController: ftpExplorer,
+            canSelectMany: true,
             showCollapseAll: true
         });
+        ftpExplorer.setTreeView(treeView);
         context.subscriptions.push(treeView);
         context.subscriptions.push({ dispose: () => ftpExplorer.dispose() });
 
@@ -60,8 +83,15 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             vscode.commands.registerCommand('ftpSync.disconnect', () => ftpExplorer.disconnect()),
             vscode.commands.registerCommand('ftpSync.refreshExplorer', () => ftpExplorer.refresh()),
             vscode.commands.registerCommand('ftpSync.navigateUp', () => ftpExplorer.navigateUp()),
+            vscode.commands.registerCommand('ftpSync.goToPath', () => ftpExplorer.goToPath()),
+            vscode.commands.registerCommand('ftpSync.browseRemoteFolder', (item: FtpTreeItem) => ftpExplorer.navigateTo(item.remotePath)),
             vscode.commands.registerCommand('ftpSync.downloadRemoteFile', (item: FtpTreeItem) => ftpExplorer.downloadItem(item)),
-            vscode.commands.registerCommand('ftpSync.deleteRemoteFile', (item: FtpTreeItem) => ftpExplorer.deleteItem(item))
+            vscode.commands.registerCommand('ftpSync.deleteRemoteFile', (item: FtpTreeItem) => ftpExplorer.deleteItem(item)),
+            vscode.commands.registerCommand('ftpSync.renameRemoteFile', (item: FtpTreeItem) => ftpExplorer.renameItem(item)),
+            vscode.commands.registerCommand('ftpSync.newRemoteFolder', (item?: FtpTreeItem) => ftpExplorer.createFolder(item)),
+            vscode.commands.registerCommand('ftpSync.newRemoteFile', (item?: FtpTreeItem) => ftpExplorer.createFile(item)),
+            vscode.commands.registerCommand('ftpSync.copyRemotePath', (item: FtpTreeItem) => ftpExplorer.copyPath(item)),
+            vscode.commands.registerCommand('ftpSync.changeRemotePermissions', (item: FtpTreeItem) => ftpExplorer.changePermissions(item))
         );
 
         // Setup upload on save handler
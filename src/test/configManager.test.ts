@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { ConfigManager } from '../core/configManager';
+
+/**
+ * Join lines the way the config file is written
+ */
+function jsonc(...lines: string[]): string {
+    return lines.join('\n');
+}
+
+suite('ConfigManager.removePlaintextSecrets', () => {
+    test('Removes password lines and keeps comments', () => {
+        const content = jsonc(
+            '{',
+            '    // Production server',
+            '    "host": "example.com",',
+            '    "password": "s3cret",',
+            '    /* key for deploys */',
+            '    "passphrase": "phrase",',
+            '    "remotePath": "/www"',
+            '}'
+        );
+
+        assert.strictEqual(ConfigManager.removePlaintextSecrets(content), jsonc(
+            '{',
+            '    // Production server',
+            '    "host": "example.com",',
+            '    /* key for deploys */',
+            '    "remotePath": "/www"',
+            '}'
+        ));
+    });
+
+    test('Removes the last property together with the comma before it', () => {
+        const content = jsonc(
+            '{',
+            '    "host": "example.com",',
+            '    "password": "s3cret"',
+            '}'
+        );
+
+        assert.strictEqual(ConfigManager.removePlaintextSecrets(content), jsonc(
+            '{',
+            '    "host": "example.com"',
+            '}'
+        ));
+    });
+
+    test('Keeps trailing commas of the surrounding properties', () => {
+        const content = jsonc(
+            '{',
+            '    "host": "example.com",',
+            '    "password": "s3cret",',
+            '}'
+        );
+
+        assert.strictEqual(ConfigManager.removePlaintextSecrets(content), jsonc(
+            '{',
+            '    "host": "example.com",',
+            '}'
+        ));
+    });
+
+    test('Handles properties sharing a line and escaped quotes', () => {
+        const content = jsonc(
+            '[',
+            '    { "name": "a", "password": "say \\"hi\\"", "port": 21 },',
+            '    { "name": "b", "passphrase": "x" }',
+            ']'
+        );
+
+        assert.strictEqual(ConfigManager.removePlaintextSecrets(content), jsonc(
+            '[',
+            '    { "name": "a", "port": 21 },',
+            '    { "name": "b" }',
+            ']'
+        ));
+    });
+
+    test('Leaves examples in comments, empty passwords and other keys alone', () => {
+        const content = jsonc(
+            '{',
+            '    // "password": "example",',
+            '    "password": "",',
+            '    "passwordHint": "ask the admin"',
+            '}'
+        );
+
+        assert.strictEqual(ConfigManager.removePlaintextSecrets(content), content);
+    });
+});
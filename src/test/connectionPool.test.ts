@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { ConnectionPool, globalConnectionManager } from '../core/connectionPool';
+import { FtpSyncConfig, mergeWithDefaults } from '../types';
+import { FakeRemoteClient, FakeRemoteServer } from './fakeRemoteClient';
+
+/**
+ * Fake server that refuses connections beyond a limit
+ */
+class LimitedServer extends FakeRemoteServer {
+    public open = 0;
+    public maxConnections = Infinity;
+}
+
+/**
+ * Client of a LimitedServer with transfers that take a while
+ */
+class LimitedClient extends FakeRemoteClient {
+    constructor(private limited: LimitedServer, config: FtpSyncConfig) {
+        super(limited, config);
+    }
+
+    async connect(): Promise<void> {
+        if (this.limited.open >= this.limited.maxConnections) {
+            throw new Error('421 Too many connections (1) from this IP');
+        }
+        this.limited.open++;
+        await super.connect();
+    }
+
+    async disconnect(): Promise<void> {
+        if (this.isConnected()) {
+            this.limited.open--;
+        }
+        await super.disconnect();
+    }
+
+    /**
+     * Take a while, reporting progress every 50ms unless stalled
+     */
+    public async transfer(ms: number, stalled = false): Promise<void> {
+        for (let elapsed = 0; elapsed < ms; elapsed += 50) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            if (!stalled) {
+                this.reportProgress();
+            }
+        }
+    }
+}
+
+suite('ConnectionPool', () => {
+    let server: LimitedServer;
+    let pool: ConnectionPool;
+
+    /**
+     * Create a pool for a host of its own, so the shared slot counts don't leak between tests
+     */
+    function createPool(host: string, settings: Partial<FtpSyncConfig>): ConnectionPool {
+        const config = mergeWithDefaults({ protocol: 'sftp', host, username: 'www', password: 'secret', remotePath: '/www', ...settings });
+        return new ConnectionPool(config, (resolved) => new LimitedClient(server, resolved));
+    }
+
+    setup(() => {
+        server = new LimitedServer();
+    });
+
+    teardown(async () => {
+        await pool.dispose();
+    });
+
+    test('A server refusing more connections (421) lowers the limit instead of failing', async () => {
+        server.maxConnections = 1;
+        pool = createPool('limited.example.com', { concurrency: 3 });
+
+        const operation = () => pool.executeWithRetry(client => (client as LimitedClient).transfer(100), 'upload');
+        await Promise.all([operation(), operation(), operation()]);
+
+        assert.strictEqual(pool.getConnectionCount(), 1);
+        assert.strictEqual(pool.getHealth(), 'healthy');
+        assert.strictEqual(globalConnectionManager.getLimit('limited.example.com:22', 3), 1);
+
+        // Once every connection is closed the configured maximum applies again
+        await pool.dispose();
+        assert.strictEqual(globalConnectionManager.getLimit('limited.example.com:22', 3), 3);
+    });
+
+    test('Operations run on as long as the transfer makes progress', async () => {
+        pool = createPool('slow.example.com', { timeout: 200 });
+
+        await pool.executeWithRetry(client => (client as LimitedClient).transfer(600), 'upload');
+        assert.strictEqual(pool.getConnectionCount(), 1);
+    });
+
+    test('A transfer without progress times out and is retried on a new connection', async function () {
+        this.timeout(5000);
+        pool = createPool('stalled.example.com', { timeout: 200 });
+
+        const clients: LimitedClient[] = [];
+        const started = Date.now();
+        await pool.executeWithRetry(async client => {
+            clients.push(client as LimitedClient);
+            // Only the first attempt stalls
+            await (client as LimitedClient).transfer(clients.length === 1 ? 2000 : 50, clients.length === 1);
+        }, 'upload');
+
+        assert.strictEqual(clients.length, 2);
+        assert.notStrictEqual(clients[0], clients[1]);
+        assert.strictEqual(clients[0].isConnected(), false);
+        assert.ok(Date.now() - started < 2000, 'the stalled attempt was not cut short');
+    });
+});
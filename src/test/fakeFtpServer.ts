@@ -0,0 +1,177 @@
+import * as net from 'net';
+import * as path from 'path';
+
+/**
+ * A file or folder served by the fake FTP server
+ */
+export interface FakeFtpEntry {
+    type: 'file' | 'directory';
+    size?: number;
+    modifiedAt?: Date; // Only answered by MDTM, listings never include it
+}
+
+/**
+ * Minimal FTP server for tests, behaving like servers without MLSD:
+ * listings come from LIST, which also succeeds for plain files
+ * Only passive mode (EPSV) and the commands the clients use are supported
+ */
+export class FakeFtpServer {
+    public readonly entries: Map<string, FakeFtpEntry> = new Map([['/', { type: 'directory' }]]);
+    private server = net.createServer(socket => this.handle(socket));
+    private sockets: Set<net.Socket> = new Set();
+
+    /**
+     * Add a file or folder, creating its parent folders
+     */
+    public add(remotePath: string, entry: FakeFtpEntry): void {
+        for (let dir = path.posix.dirname(remotePath); !this.entries.has(dir); dir = path.posix.dirname(dir)) {
+            this.entries.set(dir, { type: 'directory' });
+        }
+        this.entries.set(remotePath, entry);
+    }
+
+    /**
+     * Listen on a free local port
+     * @returns The port
+     */
+    public start(): Promise<number> {
+        return new Promise(resolve => {
+            this.server.listen(0, '127.0.0.1', () => resolve((this.server.address() as net.AddressInfo).port));
+        });
+    }
+
+    /**
+     * Close all connections and stop listening
+     */
+    public stop(): Promise<void> {
+        this.sockets.forEach(socket => socket.destroy());
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Answer the commands of one control connection
+     */
+    private handle(control: net.Socket): void {
+        this.sockets.add(control);
+        control.on('close', () => this.sockets.delete(control));
+        control.on('error', () => undefined);
+
+        let workingDir = '/';
+        let dataConnection: Promise<net.Socket> | undefined;
+        let buffer = '';
+        const reply = (line: string): void => {
+            control.write(`${line}\r\n`);
+        };
+        const resolve = (arg: string) => path.posix.resolve(workingDir, arg || '.');
+
+        const run = async (command: string, arg: string): Promise<void> => {
+            const entry = this.entries.get(resolve(arg));
+            switch (command) {
+                case 'USER':
+                    return reply('331 Password required');
+                case 'PASS':
+                    return reply('230 Logged in');
+                case 'FEAT':
+                    return reply('211-Features:\r\n EPSV\r\n SIZE\r\n MDTM\r\n211 End');
+                case 'PWD':
+                    return reply(`257 "${workingDir}" is the current directory`);
+                case 'CWD':
+                    if (entry?.type !== 'directory') {
+                        return reply('550 Not a directory');
+                    }
+                    workingDir = resolve(arg);
+                    return reply('250 OK');
+                case 'EPSV':
+                    dataConnection = this.openDataConnection(port => reply(`229 Entering Extended Passive Mode (|||${port}|)`));
+                    return;
+                case 'LIST': {
+                    const target = resolve(arg.replace(/^-a\s*/, ''));
+                    const socket = await dataConnection;
+                    dataConnection = undefined;
+                    if (!socket || !this.entries.has(target)) {
+                        socket?.destroy();
+                        return reply('550 No such file or directory');
+                    }
+                    reply('150 Here comes the listing');
+                    socket.end(this.listing(target), () => reply('226 Done'));
+                    return;
+                }
+                case 'MDTM':
+                    if (entry?.type !== 'file' || !entry.modifiedAt) {
+                        return reply('550 Not available');
+                    }
+                    return reply(`213 ${entry.modifiedAt.toISOString().replace(/[^0-9]/g, '').slice(0, 14)}`);
+                case 'SIZE':
+                    return reply(entry?.type === 'file' ? `213 ${entry.size ?? 0}` : '550 Not a file');
+                case 'DELE':
+                    if (entry?.type !== 'file') {
+                        return reply('550 Not a file');
+                    }
+                    this.entries.delete(resolve(arg));
+                    return reply('250 Deleted');
+                case 'QUIT':
+                    reply('221 Bye');
+                    control.end();
+                    return;
+                case 'TYPE':
+                case 'STRU':
+                case 'OPTS':
+                    return reply('200 OK');
+                default:
+                    return reply('502 Not implemented');
+            }
+        };
+
+        // One command at a time, in the order they arrive
+        let queue = Promise.resolve();
+        control.on('data', chunk => {
+            buffer += chunk.toString();
+            let index: number;
+            while ((index = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                const [command, ...args] = line.split(' ');
+                queue = queue.then(() => run(command.toUpperCase(), args.join(' ')));
+            }
+        });
+
+        reply('220 Fake FTP server ready');
+    }
+
+    /**
+     * Accept one data connection on a new port
+     */
+    private openDataConnection(announce: (port: number) => void): Promise<net.Socket> {
+        return new Promise(resolve => {
+            const server = net.createServer(socket => {
+                this.sockets.add(socket);
+                socket.on('close', () => this.sockets.delete(socket));
+                server.close();
+                resolve(socket);
+            });
+            server.listen(0, '127.0.0.1', () => announce((server.address() as net.AddressInfo).port));
+        });
+    }
+
+    /**
+     * Unix style LIST output: the children of a folder, or the file itself
+     */
+    private listing(target: string): string {
+        const line = (name: string, entry: FakeFtpEntry) => [
+            entry.type === 'directory' ? 'drwxr-xr-x' : '-rw-r--r--',
+            '1 www www',
+            String(entry.type === 'directory' ? 4096 : entry.size ?? 0).padStart(8),
+            'Mar 14 09:12',
+            name
+        ].join(' ');
+
+        const entry = this.entries.get(target)!;
+        if (entry.type === 'file') {
+            return `${line(path.posix.basename(target), entry)}\r\n`;
+        }
+        return [...this.entries]
+            .filter(([entryPath]) => entryPath !== '/' && path.posix.dirname(entryPath) === target)
+            .map(([entryPath, child]) => `${line(path.posix.basename(entryPath), child)}\r\n`)
+            .join('');
+    }
+}
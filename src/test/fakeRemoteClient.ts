@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClientFactory, RemoteClient, RemoteFileInfo, TransferResult } from '../clients';
+import { FtpSyncConfig } from '../types';
+
+/**
+ * A file on the fake server
+ */
+export interface FakeRemoteFile {
+    content: Buffer;
+    modifiedTime?: Date; // Left out to act like an FTP server that only answers LIST
+}
+
+/**
+ * In-memory server shared by all FakeRemoteClient connections of a test
+ * Folders exist implicitly as long as a file below them does
+ */
+export class FakeRemoteServer {
+    public readonly files: Map<string, FakeRemoteFile> = new Map();
+
+    /**
+     * Create or replace a file
+     */
+    public write(remotePath: string, content: string | Buffer, modifiedTime?: Date): void {
+        this.files.set(remotePath, { content: Buffer.from(content), modifiedTime });
+    }
+
+    /**
+     * Check if a path is a folder, i.e. has files below it
+     */
+    public isDirectory(remotePath: string): boolean {
+        const prefix = remotePath.endsWith('/') ? remotePath : `${remotePath}/`;
+        return [...this.files.keys()].some(file => file.startsWith(prefix));
+    }
+
+    /**
+     * Create a client factory connecting to this server
+     */
+    public factory(): ClientFactory {
+        return config => new FakeRemoteClient(this, config);
+    }
+}
+
+/**
+ * RemoteClient working on a FakeRemoteServer instead of the network
+ */
+export class FakeRemoteClient extends RemoteClient {
+    private server: FakeRemoteServer;
+
+    constructor(server: FakeRemoteServer, config: FtpSyncConfig) {
+        super(config);
+        this.server = server;
+    }
+
+    async connect(): Promise<void> {
+        this.connected = true;
+    }
+
+    async disconnect(): Promise<void> {
+        this.connected = false;
+    }
+
+    async uploadFile(localPath: string, remotePath: string): Promise<TransferResult> {
+        this.server.write(remotePath, await fs.promises.readFile(localPath), new Date());
+        return { success: true, localPath, remotePath };
+    }
+
+    async downloadFile(remotePath: string, localPath: string): Promise<TransferResult> {
+        const file = this.server.files.get(remotePath);
+        if (!file) {
+            return { success: false, localPath, remotePath, error: new Error(`No such file: ${remotePath}`) };
+        }
+        await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+        await fs.promises.writeFile(localPath, file.content);
+        return { success: true, localPath, remotePath };
+    }
+
+    async deleteFile(remotePath: string): Promise<void> {
+        if (!this.server.files.delete(remotePath)) {
+            throw new Error(`No such file: ${remotePath}`);
+        }
+    }
+
+    async deleteDirectory(remotePath: string): Promise<void> {
+        for (const file of [...this.server.files.keys()]) {
+            if (file.startsWith(`${remotePath}/`)) {
+                this.server.files.delete(file);
+            }
+        }
+    }
+
+    async rename(fromPath: string, toPath: string): Promise<void> {
+        const file = this.server.files.get(fromPath);
+        if (!file) {
+            throw new Error(`No such file: ${fromPath}`);
+        }
+        this.server.files.delete(fromPath);
+        this.server.files.set(toPath, file);
+    }
+
+    async chmod(): Promise<void> {
+        // Permissions are not tracked
+    }
+
+    async createDirectory(): Promise<void> {
+        // Folders exist implicitly
+    }
+
+    async ensureDirectory(): Promise<void> {
+        // Folders exist implicitly
+    }
+
+    async listDirectory(remotePath: string): Promise<RemoteFileInfo[]> {
+        const items: Map<string, RemoteFileInfo> = new Map();
+        for (const [filePath, file] of this.server.files) {
+            const relativePath = path.posix.relative(remotePath, filePath);
+            if (relativePath.startsWith('..')) {
+                continue;
+            }
+            const [name, ...below] = relativePath.split('/');
+            items.set(name, below.length > 0
+                ? { name, path: path.posix.join(remotePath, name), type: 'directory', size: 0 }
+                : { name, path: filePath, type: 'file', size: file.content.length, modifiedTime: file.modifiedTime });
+        }
+        return [...items.values()];
+    }
+
+    async exists(remotePath: string): Promise<boolean> {
+        return this.server.files.has(remotePath) || this.server.isDirectory(remotePath);
+    }
+
+    async isDirectory(remotePath: string): Promise<boolean> {
+        return this.server.isDirectory(remotePath);
+    }
+
+    async getFileInfo(remotePath: string): Promise<RemoteFileInfo | null> {
+        const parent = await this.listDirectory(path.posix.dirname(remotePath));
+        return parent.find(item => item.path === remotePath) || null;
+    }
+}
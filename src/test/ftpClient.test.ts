@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { FTPContext } from 'basic-ftp';
+import { FtpClient } from '../clients/ftpClient';
+import { HostKeyError } from '../clients/remoteClient';
+import { FtpSyncConfig, mergeWithDefaults } from '../types';
+import { FakeFtpServer } from './fakeFtpServer';
+
+suite('FtpClient', () => {
+    let server: FakeFtpServer;
+    let config: FtpSyncConfig;
+    let client: FtpClient;
+
+    setup(async () => {
+        server = new FakeFtpServer();
+        server.add('/www/index.php', { type: 'file', size: 1024, modifiedAt: new Date('2025-03-14T09:12:30Z') });
+        server.add('/www/assets/style.css', { type: 'file', size: 512 });
+        const port = await server.start();
+
+        config = mergeWithDefaults({
+            protocol: 'ftp',
+            host: '127.0.0.1',
+            port,
+            username: 'www',
+            password: 'secret',
+            remotePath: '/www'
+        });
+        client = new FtpClient(config);
+        await client.connect();
+    });
+
+    teardown(async () => {
+        await client.disconnect();
+        await server.stop();
+    });
+
+    test('LIST-only servers: files are not taken for folders', async () => {
+        assert.strictEqual(await client.isDirectory('/www/index.php'), false);
+        assert.strictEqual(await client.isDirectory('/www/assets'), true);
+        assert.strictEqual((await client.getFileInfo('/www/index.php'))?.type, 'file');
+        assert.strictEqual((await client.getFileInfo('/www/assets'))?.type, 'directory');
+    });
+
+    test('LIST-only servers: the modification time comes from MDTM', async () => {
+        const listed = await client.listDirectory('/www');
+        assert.strictEqual(listed.find(file => file.name === 'index.php')?.modifiedTime, undefined);
+
+        const info = await client.getFileInfo('/www/index.php');
+        assert.strictEqual(info?.modifiedTime?.toISOString(), '2025-03-14T09:12:30.000Z');
+        assert.strictEqual((await client.getFileInfo('/www/assets/style.css'))?.modifiedTime, undefined);
+    });
+
+    test('Pinned certificates: basic-ftp still exposes the data socket accessor', () => {
+        const accessor = Object.getOwnPropertyDescriptor(FTPContext.prototype, 'dataSocket');
+        assert.ok(accessor?.get, 'FTPContext.dataSocket getter is gone');
+        assert.ok(accessor?.set, 'FTPContext.dataSocket setter is gone');
+    });
+
+    test('Pinned certificates: refuses to connect if data connections cannot be checked', async () => {
+        const accessor = Object.getOwnPropertyDescriptor(FTPContext.prototype, 'dataSocket')!;
+        const pinnedClient = new FtpClient({ ...config, secure: true, secureOptions: { fingerprint: 'AB:CD:EF' } });
+
+        delete (FTPContext.prototype as { dataSocket?: unknown }).dataSocket;
+        try {
+            await assert.rejects(pinnedClient.connect(), HostKeyError);
+        } finally {
+            Object.defineProperty(FTPContext.prototype, 'dataSocket', accessor);
+            await pinnedClient.disconnect();
+        }
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { PermissionRules } from '../clients/permissionRules';
+
+suite('PermissionRules', () => {
+    test('parseMode reads octal modes in all accepted forms', () => {
+        assert.strictEqual(PermissionRules.parseMode('644'), 0o644);
+        assert.strictEqual(PermissionRules.parseMode('0755'), 0o755);
+        assert.strictEqual(PermissionRules.parseMode('0o750'), 0o750);
+        assert.strictEqual(PermissionRules.parseMode(' 600 '), 0o600);
+        assert.strictEqual(PermissionRules.parseMode(644), 0o644);
+    });
+
+    test('parseMode rejects values that are not octal modes', () => {
+        for (const value of ['', '64', '888', '12345', 'rw-r--r--', '0x1ff', 999]) {
+            assert.strictEqual(PermissionRules.parseMode(value), undefined, String(value));
+        }
+    });
+
+    test('Patterns ending with "/" only apply to directories', () => {
+        const rules = new PermissionRules({ 'uploads/': '777', 'uploads': '600' });
+
+        assert.strictEqual(rules.getMode('uploads', true), 0o777);
+        assert.strictEqual(rules.getMode('uploads', false), 0o600);
+        assert.strictEqual(rules.getMode('public/uploads', true), 0o777);
+    });
+
+    test('Patterns without "/" only apply to files', () => {
+        const rules = new PermissionRules({ '*.php': '640' });
+
+        assert.strictEqual(rules.getMode('index.php', false), 0o640);
+        assert.strictEqual(rules.getMode('lib/db.php', false), 0o640);
+        assert.strictEqual(rules.getMode('legacy.php', true), undefined);
+    });
+
+    test('The first matching pattern wins', () => {
+        const rules = new PermissionRules({ 'config/*.php': '600', '*.php': '644', 'config/': '700', '*/': '755' });
+
+        assert.strictEqual(rules.getMode('config/db.php', false), 0o600);
+        assert.strictEqual(rules.getMode('index.php', false), 0o644);
+        assert.strictEqual(rules.getMode('config', true), 0o700);
+        assert.strictEqual(rules.getMode('assets', true), 0o755);
+
+        const reversed = new PermissionRules({ '*.php': '644', 'config/*.php': '600' });
+        assert.strictEqual(reversed.getMode('config/db.php', false), 0o644);
+    });
+
+    test('Invalid modes are skipped and unmatched paths get no mode', () => {
+        const rules = new PermissionRules({ '*.sh': 'rwx', '*.txt': '644' });
+
+        assert.strictEqual(rules.isEmpty(), false);
+        assert.strictEqual(rules.getMode('run.sh', false), undefined);
+        assert.strictEqual(rules.getMode('notes.txt', false), 0o644);
+        assert.strictEqual(rules.getMode('', true), undefined);
+        assert.strictEqual(new PermissionRules({ '*.sh': 'rwx' }).isEmpty(), true);
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileWatcher } from '../core/fileWatcher';
+import { RemoteChange, RemoteWatcher } from '../core/remoteWatcher';
+import { RemoteWatcherConfig, mergeWithDefaults } from '../types';
+import { FakeRemoteServer } from './fakeRemoteClient';
+
+suite('RemoteWatcher', () => {
+    let workspacePath: string;
+    let server: FakeRemoteServer;
+    let fileWatcher: FileWatcher;
+    let watcher: RemoteWatcher;
+    let reported: RemoteChange[][];
+
+    /**
+     * Poll a server where index.php and style.css have no modification time (LIST only)
+     */
+    async function startWatching(remoteWatcher: Partial<RemoteWatcherConfig> = {}): Promise<void> {
+        const config = mergeWithDefaults({
+            protocol: 'ftp',
+            host: 'example.com',
+            username: 'www',
+            remotePath: '/www',
+            remoteWatcher: { ...remoteWatcher, enabled: true } as RemoteWatcherConfig
+        });
+        fileWatcher = new FileWatcher(workspacePath, config, server.factory());
+        watcher = new RemoteWatcher(workspacePath, fileWatcher);
+        watcher.onChanges(changes => reported.push(changes));
+        await watcher.start();
+    }
+
+    setup(() => {
+        workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'remote-watcher-'));
+        server = new FakeRemoteServer();
+        server.write('/www/index.php', '<?php echo 1;');
+        server.write('/www/css/style.css', 'body {}');
+        reported = [];
+    });
+
+    teardown(async () => {
+        watcher.stop();
+        await fileWatcher.dispose();
+        fs.rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    test('Files without modification time are not reported on every poll', async () => {
+        await startWatching();
+        await watcher.poll();
+        await watcher.poll();
+
+        assert.deepStrictEqual(reported, []);
+    });
+
+    test('Files without modification time are reported when the size changes', async () => {
+        await startWatching();
+        server.write('/www/index.php', '<?php echo 12;');
+        server.write('/www/css/print.css', '@media print {}');
+        await watcher.poll();
+
+        const changes = reported.flat().map(change => [change.type, change.relativePath, change.downloaded]);
+        assert.deepStrictEqual(changes.sort(), [['changed', 'index.php', false], ['created', 'css/print.css', false]].sort());
+    });
+
+    test('Downloaded changes are not reported again', async () => {
+        await startWatching({ action: 'download' });
+        server.write('/www/index.php', '<?php echo 12;');
+        await watcher.poll();
+        await watcher.poll();
+
+        assert.strictEqual(reported.length, 1);
+        assert.strictEqual(reported[0][0].downloaded, true);
+        assert.strictEqual(fs.readFileSync(path.join(workspacePath, 'index.php'), 'utf8'), '<?php echo 12;');
+    });
+
+    test('Deleted files are reported, not deleted locally', async () => {
+        await startWatching({ action: 'download' });
+        server.write('/www/index.php', '<?php echo 12;');
+        await watcher.poll();
+        server.files.delete('/www/index.php');
+        await watcher.poll();
+
+        assert.deepStrictEqual(reported[1].map(change => [change.type, change.relativePath]), [['deleted', 'index.php']]);
+        assert.ok(fs.existsSync(path.join(workspacePath, 'index.php')));
+    });
+});
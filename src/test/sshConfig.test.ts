@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { matchesHostPattern, readSshConfig } from '../clients/sshConfig';
+
+suite('SSH config', () => {
+    let dir: string;
+    let configPath: string;
+
+    /**
+     * Write a file into the test folder
+     */
+    function write(name: string, lines: string[]): string {
+        const filePath = path.join(dir, name);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, lines.join('\n'));
+        return filePath;
+    }
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssh-config-'));
+        configPath = path.join(dir, 'config');
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('The first value for a keyword wins, identity files accumulate', () => {
+        write('config', [
+            'Host web',
+            '    HostName web.example.com',
+            '    Port 2222',
+            '    IdentityFile /keys/web',
+            'Host *',
+            '    HostName ignored.example.com',
+            '    User deploy',
+            '    IdentityFile /keys/default'
+        ]);
+
+        assert.deepStrictEqual(readSshConfig('web', configPath), {
+            hostName: 'web.example.com',
+            port: 2222,
+            user: 'deploy',
+            identityFiles: ['/keys/web', '/keys/default']
+        });
+    });
+
+    test('Wildcard and negated Host patterns', () => {
+        write('config', [
+            'Host *.internal !db.internal',
+            '    User ops',
+            'Host web?',
+            '    Port 2200',
+            'Host * !web1',
+            '    ProxyJump bastion.example.com'
+        ]);
+
+        assert.strictEqual(readSshConfig('app.internal', configPath).user, 'ops');
+        assert.strictEqual(readSshConfig('db.internal', configPath).user, undefined);
+        assert.strictEqual(readSshConfig('web2', configPath).port, 2200);
+        assert.strictEqual(readSshConfig('web12', configPath).port, undefined);
+        assert.strictEqual(readSshConfig('web2', configPath).proxyJump, 'bastion.example.com');
+        assert.strictEqual(readSshConfig('web1', configPath).proxyJump, undefined);
+    });
+
+    test('Include reads files in place, with wildcards in sorted order', () => {
+        write('conf.d/20-web', ['Host web', '    Port 2020', '    User second']);
+        write('conf.d/10-web', ['Host web', '    Port 1010']);
+        write('config', [
+            `Include ${path.join(dir, 'conf.d', '*')}`,
+            'Host web',
+            '    Port 22',
+            '    User third',
+            '    ProxyJump "jump@bastion:2222"'
+        ]);
+
+        const config = readSshConfig('web', configPath);
+        assert.strictEqual(config.port, 1010);
+        assert.strictEqual(config.user, 'second');
+        assert.strictEqual(config.proxyJump, 'jump@bastion:2222');
+    });
+
+    test('Include inside a Host block only applies to that host', () => {
+        write('web.conf', ['User included']);
+        write('config', [`Host web`, `    Include ${path.join(dir, 'web.conf')}`]);
+
+        assert.strictEqual(readSshConfig('web', configPath).user, 'included');
+        assert.strictEqual(readSshConfig('other', configPath).user, undefined);
+    });
+
+    test('Match blocks are skipped and tokens are expanded', () => {
+        write('config', [
+            'Host web',
+            '    HostName %h.example.com',
+            '    User deploy',
+            '    IdentityFile /keys/%r@%h',
+            'Match user root',
+            '    Port 2222'
+        ]);
+
+        const config = readSshConfig('web', configPath);
+        assert.strictEqual(config.hostName, 'web.example.com');
+        assert.strictEqual(config.port, undefined);
+        assert.deepStrictEqual(config.identityFiles, ['/keys/deploy@web.example.com']);
+    });
+
+    test('A missing config file gives no settings', () => {
+        const config = readSshConfig('web', path.join(dir, 'missing'));
+        assert.strictEqual(config.hostName, undefined);
+        assert.strictEqual(config.port, undefined);
+        assert.deepStrictEqual(config.identityFiles, []);
+    });
+});
+
+suite('Host patterns', () => {
+    test('Wildcards match any run of characters or a single one', () => {
+        assert.strictEqual(matchesHostPattern('web1.example.com', ['*.example.com']), true);
+        assert.strictEqual(matchesHostPattern('example.com', ['*.example.com']), false);
+        assert.strictEqual(matchesHostPattern('web1', ['web?']), true);
+        assert.strictEqual(matchesHostPattern('web12', ['web?']), false);
+        assert.strictEqual(matchesHostPattern('WEB1', ['web1']), true);
+    });
+
+    test('Dots and brackets are literal', () => {
+        assert.strictEqual(matchesHostPattern('webXexample.com', ['web.example.com']), false);
+        assert.strictEqual(matchesHostPattern('[example.com]:2222', ['[example.com]:2222']), true);
+        assert.strictEqual(matchesHostPattern('[example.com]:2222', ['example.com']), false);
+        assert.strictEqual(matchesHostPattern('[web.example.com]:2222', ['[*.example.com]:2222']), true);
+    });
+
+    test('A negated pattern rejects the host even if another pattern matches', () => {
+        assert.strictEqual(matchesHostPattern('db.internal', ['*.internal', '!db.internal']), false);
+        assert.strictEqual(matchesHostPattern('db.internal', ['!db.internal', '*.internal']), false);
+        assert.strictEqual(matchesHostPattern('app.internal', ['*.internal', '!db.internal']), true);
+    });
+
+    test('A negated pattern alone matches nothing', () => {
+        assert.strictEqual(matchesHostPattern('web', ['!db']), false);
+        assert.strictEqual(matchesHostPattern('web', []), false);
+    });
+
+    test('known_hosts lists several hosts separated by commas', () => {
+        const hosts = 'example.com,192.0.2.10,[example.com]:2222'.split(',');
+        assert.strictEqual(matchesHostPattern('192.0.2.10', hosts), true);
+        assert.strictEqual(matchesHostPattern('[example.com]:2222', hosts), true);
+        assert.strictEqual(matchesHostPattern('[example.com]:22', hosts), false);
+    });
+});
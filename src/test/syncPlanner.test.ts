@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { ChangesSinceSync, FileEntry, SyncPlan, buildSyncPlan } from '../core/syncPlanner';
+
+/**
+ * A file on one side; without a time it acts like a LIST-only FTP listing
+ */
+function file(relativePath: string, size: number, modifiedTime?: string): FileEntry {
+    return {
+        relativePath,
+        localPath: `/workspace/${relativePath}`,
+        remotePath: `/www/${relativePath}`,
+        size,
+        modifiedTime: modifiedTime ? new Date(modifiedTime) : undefined
+    };
+}
+
+/**
+ * The planned actions as [type, relativePath] pairs
+ */
+function actions(plan: SyncPlan): string[][] {
+    return plan.actions.map(action => [action.type, action.relativePath]);
+}
+
+suite('Sync planner', () => {
+    const local = [
+        file('index.php', 100, '2025-03-14T10:00:00Z'),
+        file('new-local.php', 10, '2025-03-14T10:00:00Z')
+    ];
+    const remote = [
+        file('index.php', 120),
+        file('new-remote.php', 20)
+    ];
+
+    test('local-wins mirrors the local folder', () => {
+        const plan = buildSyncPlan(local, remote, 'local-wins');
+
+        assert.deepStrictEqual(actions(plan), [
+            ['upload', 'index.php'],
+            ['upload', 'new-local.php'],
+            ['delete-remote', 'new-remote.php']
+        ]);
+    });
+
+    test('remote-wins mirrors the server', () => {
+        const plan = buildSyncPlan(local, remote, 'remote-wins');
+
+        assert.deepStrictEqual(actions(plan), [
+            ['download', 'index.php'],
+            ['delete-local', 'new-local.php'],
+            ['download', 'new-remote.php']
+        ]);
+    });
+
+    test('newer-wins compares modification times when both sides have one', () => {
+        const plan = buildSyncPlan(
+            [file('a.php', 100, '2025-03-14T10:00:00Z'), file('b.php', 100, '2025-03-14T10:00:00Z')],
+            [file('a.php', 100, '2025-03-14T09:00:00Z'), file('b.php', 100, '2025-03-14T11:00:00Z')],
+            'newer-wins'
+        );
+
+        assert.deepStrictEqual(actions(plan), [['upload', 'a.php'], ['download', 'b.php']]);
+    });
+
+    test('newer-wins without a server mtime goes by the changes since the last sync', () => {
+        const history: Map<string, ChangesSinceSync> = new Map([
+            ['local.php', { localChanged: true, remoteChanged: false }],
+            ['remote.php', { localChanged: false, remoteChanged: true }]
+        ]);
+        const plan = buildSyncPlan(
+            [file('local.php', 100, '2025-03-14T10:00:00Z'), file('remote.php', 100, '2025-03-14T10:00:00Z')],
+            [file('local.php', 90), file('remote.php', 110)],
+            'newer-wins',
+            2000,
+            history
+        );
+
+        assert.deepStrictEqual(actions(plan), [['upload', 'local.php'], ['download', 'remote.php']]);
+        assert.deepStrictEqual(plan.conflicts, []);
+    });
+
+    test('newer-wins does not upload on a size difference alone', () => {
+        const history: Map<string, ChangesSinceSync> = new Map([
+            ['both.php', { localChanged: true, remoteChanged: true }]
+        ]);
+        const plan = buildSyncPlan(
+            [file('both.php', 100, '2025-03-14T10:00:00Z'), file('unknown.php', 100, '2025-03-14T10:00:00Z')],
+            [file('both.php', 120), file('unknown.php', 120)],
+            'newer-wins',
+            2000,
+            history
+        );
+
+        assert.deepStrictEqual(actions(plan), []);
+        assert.deepStrictEqual(plan.conflicts, ['both.php', 'unknown.php']);
+    });
+
+    test('newer-wins with equal modification times uploads a size difference only if changed locally', () => {
+        const history: Map<string, ChangesSinceSync> = new Map([
+            ['edited.php', { localChanged: true, remoteChanged: false }]
+        ]);
+        const plan = buildSyncPlan(
+            [file('edited.php', 100, '2025-03-14T10:00:00Z'), file('other.php', 100, '2025-03-14T10:00:00Z')],
+            [file('edited.php', 120, '2025-03-14T10:00:30Z'), file('other.php', 120, '2025-03-14T10:00:30Z')],
+            'newer-wins',
+            60000,
+            history
+        );
+
+        assert.deepStrictEqual(actions(plan), [['upload', 'edited.php']]);
+        assert.deepStrictEqual(plan.conflicts, ['other.php']);
+    });
+
+    test('newer-wins leaves files with the same size and no history alone', () => {
+        const plan = buildSyncPlan([file('same.php', 100, '2025-03-14T10:00:00Z')], [file('same.php', 100)], 'newer-wins');
+
+        assert.deepStrictEqual(actions(plan), []);
+        assert.strictEqual(plan.unchanged, 1);
+    });
+});
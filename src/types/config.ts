@@ -9,10 +9,27 @@ export interface WatcherConfig {
     files: string | false;
     autoUpload: boolean;
     autoDelete: boolean;
+    uploadChangedOnStart: boolean;
 }
 
+export type RemoteWatchAction = 'download' | 'notify';
+
+export interface RemoteWatcherConfig {
+    enabled: boolean;
+    interval: number; // Seconds between two listings of the server
+    paths: string[]; // Directories below remotePath to poll, empty = all of remotePath
+    action: RemoteWatchAction; // download = pull changes automatically, notify = only report them
+}
+
+export type FtpsMode = 'explicit' | 'implicit';
+
 export interface SecureOptions {
-    rejectUnauthorized: boolean;
+    rejectUnauthorized?: boolean;
+    mode?: FtpsMode; // explicit = AUTH TLS on the normal port, implicit = TLS from the start (port 990)
+    caPath?: string; // CA bundle (PEM) for self-signed or internal certificates
+    fingerprint?: string; // SHA-256 fingerprint of the pinned server certificate
+    certPath?: string; // Client certificate (PEM) for mutual TLS
+    keyPath?: string; // Private key (PEM) of the client certificate
 }
 
 export interface FtpSyncConfig {
@@ -20,21 +37,31 @@ export interface FtpSyncConfig {
     protocol: Protocol;
     host: string;
     port?: number;
+    sshConfigHost?: string; // Host alias from ~/.ssh/config (SFTP), explicit fields override it
     username: string;
     password?: string;
     privateKeyPath?: string;
     passphrase?: string;
+    agent?: string | boolean; // SSH agent socket; true or unset = SSH_AUTH_SOCK, false = don't use an agent
+    tryKeyboard?: boolean; // Try keyboard-interactive authentication (e.g. 2FA) if other methods fail
     remotePath: string;
     localPath: string;
     uploadOnSave: boolean;
     watcher: WatcherConfig;
+    remoteWatcher: RemoteWatcherConfig; // Poll the server for changes made by others
     ignore: string[];
+    permissions?: Record<string, string | number>; // Glob pattern -> octal mode set after uploads, e.g. "*.php": "644"
     useGitIgnore: boolean;
+    skipUnchanged: boolean;
+    detectConflicts: boolean; // Ask before overwriting files that were changed on the server since the last sync
     secure: boolean;
     secureOptions?: SecureOptions;
     timeout: number;
-    concurrency: number;
+    concurrency: number; // Parallel transfers, each on a connection of its own
+    maxConnectionsPerHost: number; // Upper limit for all connections to one server, shared by all profiles
+    resumeThreshold: number; // Bytes above which transfers can resume after a failure, 0 = never
     debug: boolean;
+    targets?: Partial<FtpSyncConfig>[]; // Mirror servers that receive the same uploads
 }
 
 export const DEFAULT_CONFIG: Partial<FtpSyncConfig> = {
@@ -45,26 +72,45 @@ export const DEFAULT_CONFIG: Partial<FtpSyncConfig> = {
         enabled: true,
         files: '**/*',
         autoUpload: true,
-        autoDelete: false
+        autoDelete: false,
+        uploadChangedOnStart: false
+    },
+    remoteWatcher: {
+        enabled: false,
+        interval: 60,
+        paths: [],
+        action: 'notify'
     },
     ignore: [
         '.git',
         '.vscode',
         'node_modules',
-        '.ftpsync.json'
+        '.ftpsync.json',
+        '.ftpsync-manifest.json'
     ],
     useGitIgnore: true,
+    skipUnchanged: true,
+    detectConflicts: true,
     secure: false,
     timeout: 30000,
     concurrency: 3,
+    maxConnectionsPerHost: 4,
+    resumeThreshold: 10 * 1024 * 1024,
     debug: false
 };
 
-export function getDefaultPort(protocol: Protocol, secure: boolean): number {
+export function getDefaultPort(protocol: Protocol, implicitTls: boolean): number {
     if (protocol === 'sftp') {
         return 22;
     }
-    return secure ? 990 : 21;
+    return implicitTls ? 990 : 21;
+}
+
+/**
+ * Check if an FTP connection uses implicit TLS (FTPS on its own port)
+ */
+export function usesImplicitTls(config: Partial<FtpSyncConfig>): boolean {
+    return !!config.secure && config.secureOptions?.mode === 'implicit';
 }
 
 export function mergeWithDefaults(config: Partial<FtpSyncConfig>): FtpSyncConfig {
@@ -74,10 +120,14 @@ export function mergeWithDefaults(config: Partial<FtpSyncConfig>): FtpSyncConfig
     if (config.watcher) {
         merged.watcher = { ...DEFAULT_CONFIG.watcher, ...config.watcher } as WatcherConfig;
     }
+    if (config.remoteWatcher) {
+        merged.remoteWatcher = { ...DEFAULT_CONFIG.remoteWatcher, ...config.remoteWatcher } as RemoteWatcherConfig;
+    }
     
     // Set default port based on protocol
-    if (!merged.port) {
-        merged.port = getDefaultPort(merged.protocol, merged.secure);
+    // With an SSH config alias the port comes from ~/.ssh/config unless set explicitly
+    if (!merged.port && !merged.sshConfigHost) {
+        merged.port = getDefaultPort(merged.protocol, usesImplicitTls(merged));
     }
     
     return merged;
@@ -1,12 +1,33 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { ConfigManager } from '../core';
+import * as os from 'os';
+import { ConfigManager, ConnectionPool, IgnoreHandler } from '../core';
 import { FtpSyncConfig } from '../types';
-import { FtpClient } from '../clients/ftpClient';
-import { SftpClientWrapper } from '../clients/sftpClient';
 import { RemoteClient, RemoteFileInfo } from '../clients/remoteClient';
-import { Logger, showInfoMessage, showSuccessMessage, showWarningMessage, showErrorMessage, withFolderProgress, withFileProgress } from '../utils';
+import { RemoteFileSystemProvider } from './remoteFileSystem';
+import { Logger, formatFileSize, getRelativePath, showInfoMessage, showSuccessMessage, showWarningMessage, showErrorMessage, withFolderProgress, withFileProgress, withIndeterminateProgress } from '../utils';
+
+// Permission checkboxes of the Change Permissions picker, in ls order
+const PERMISSION_BITS = [
+    { label: 'Owner: Read', bit: 0o400 },
+    { label: 'Owner: Write', bit: 0o200 },
+    { label: 'Owner: Execute', bit: 0o100 },
+    { label: 'Group: Read', bit: 0o040 },
+    { label: 'Group: Write', bit: 0o020 },
+    { label: 'Group: Execute', bit: 0o010 },
+    { label: 'Others: Read', bit: 0o004 },
+    { label: 'Others: Write', bit: 0o002 },
+    { label: 'Others: Execute', bit: 0o001 }
+];
+
+/**
+ * Format Unix mode bits like ls does, e.g. "rw-r--r-- (644)"
+ */
+function formatPermissions(mode: number): string {
+    const flags = PERMISSION_BITS.map(({ bit }, i) => (mode & bit ? 'rwx'[i % 3] : '-')).join('');
+    return `${flags} (${mode.toString(8).padStart(3, '0')})`;
+}
 
 /**
  * Tree item for FTP Explorer
@@ -18,10 +39,14 @@ export class FtpTreeItem extends vscode.TreeItem {
         public readonly remotePath: string,
         public readonly isDirectory: boolean,
         public readonly fileInfo?: RemoteFileInfo,
-        public readonly workspacePath?: string
+        public readonly workspacePath?: string,
+        public readonly uri?: vscode.Uri
     ) {
         super(label, collapsibleState);
 
+        // A stable id keeps the expansion state when the tree is refreshed
+        this.id = uri ? uri.toString() : remotePath;
+
         if (isDirectory) {
             this.iconPath = new vscode.ThemeIcon('folder');
             this.contextValue = 'ftpFolder';
@@ -31,18 +56,26 @@ export class FtpTreeItem extends vscode.TreeItem {
             
             // Add file size to description
             if (fileInfo?.size) {
-                this.description = this.formatFileSize(fileInfo.size);
+                this.description = formatFileSize(fileInfo.size);
             }
-        }
 
-        this.tooltip = remotePath;
-    }
+            // Open the remote file in an editor on click
+            if (uri) {
+                this.command = {
+                    command: 'vscode.open',
+                    title: 'Open Remote File',
+                    arguments: [uri]
+                };
+            }
+        }
 
-    private formatFileSize(bytes: number): string {
-        if (bytes < 1024) return `${bytes} B`;
-        if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-        if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-        return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+        this.tooltip = [
+            remotePath,
+            fileInfo && !isDirectory ? `Size: ${formatFileSize(fileInfo.size)}` : undefined,
+            fileInfo?.modifiedTime ? `Modified: ${fileInfo.modifiedTime.toLocaleString()}` : undefined,
+            fileInfo?.permissions !== undefined ? `Permissions: ${formatPermissions(fileInfo.permissions)}` : undefined,
+            fileInfo?.owner ? `Owner: ${fileInfo.owner}${fileInfo.group ? `:${fileInfo.group}` : ''}` : undefined
+        ].filter(line => line !== undefined).join('\n');
     }
 }
 
@@ -103,53 +136,88 @@ export class NoConfigItem extends vscode.TreeItem {
     }
 }
 
-/**
- * Current path/breadcrumb item
- */
-export class CurrentPathItem extends vscode.TreeItem {
-    constructor(
-        public readonly currentPath: string,
-        public readonly canGoUp: boolean
-    ) {
-        super(currentPath, vscode.TreeItemCollapsibleState.None);
-        this.iconPath = new vscode.ThemeIcon('folder-opened');
-        this.description = canGoUp ? '← Go up' : 'Root';
-        this.contextValue = 'currentPath';
-        
-        if (canGoUp) {
-            this.command = {
-                command: 'ftpSync.navigateUp',
-                title: 'Go to Parent Directory'
-            };
-        }
-    }
-}
+// Data transfer type for items dragged within the Remote Files view
+const TREE_MIME_TYPE = 'application/vnd.code.tree.ftpexplorerview';
+// Data transfer type for files dragged from or to the Explorer and the OS file manager
+const URI_LIST_MIME_TYPE = 'text/uri-list';
 
 /**
  * FTP Explorer Tree Data Provider
+ * Also handles drag and drop: within the view to move files on the server,
+ * from the Explorer to upload, and to the Explorer to download
  */
-export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.TreeDragAndDropController<vscode.TreeItem> {
+    readonly dropMimeTypes = [TREE_MIME_TYPE, URI_LIST_MIME_TYPE];
+    readonly dragMimeTypes = [URI_LIST_MIME_TYPE];
+
     private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    private client: RemoteClient | undefined;
+    private pool: ConnectionPool | undefined; // Each operation gets a connection of its own
     private config: FtpSyncConfig | undefined;
     private workspacePath: string | undefined;
     private connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
     private errorMessage: string | undefined;
     private directoryCache: Map<string, FtpTreeItem[]> = new Map();
-    private currentPath: string = '/';
+    private expandedPaths: Set<string> = new Set(); // Folders to show expanded again after a refresh
+    private currentPath: string = '/'; // Root of the tree
+    private treeView: vscode.TreeView<vscode.TreeItem> | undefined;
+    private treeViewListeners: vscode.Disposable[] = [];
+
+    private configChangeListener: vscode.Disposable;
 
-    constructor(private configManager: ConfigManager) {}
+    constructor(private configManager: ConfigManager) {
+        // Follow the active profile of the connected workspace folder
+        this.configChangeListener = configManager.onDidChangeConfig(async (folderPath) => {
+            if (folderPath !== this.workspacePath || this.connectionStatus === 'disconnected') {
+                return;
+            }
+            await this.disconnect();
+            await this.connect();
+        });
+    }
+
+    /**
+     * Use the tree view to track expanded folders and show the breadcrumb
+     */
+    public setTreeView(treeView: vscode.TreeView<vscode.TreeItem>): void {
+        this.treeView = treeView;
+        this.treeViewListeners.push(
+            treeView.onDidExpandElement(({ element }) => {
+                if (element instanceof FtpTreeItem) {
+                    this.expandedPaths.add(element.remotePath);
+                }
+            }),
+            treeView.onDidCollapseElement(({ element }) => {
+                if (element instanceof FtpTreeItem) {
+                    this.expandedPaths.delete(element.remotePath);
+                }
+            })
+        );
+        this.updateBreadcrumb();
+    }
 
     /**
      * Refresh the tree view
      */
     public refresh(): void {
         this.directoryCache.clear();
+        this.updateBreadcrumb();
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Show the root of the tree as a breadcrumb in the view title
+     */
+    private updateBreadcrumb(): void {
+        if (this.treeView) {
+            this.treeView.description = this.connectionStatus === 'connected'
+                ? ['/', ...this.currentPath.split('/').filter(Boolean)].join(' › ')
+                : undefined;
+        }
+        vscode.commands.executeCommand('setContext', 'ftpSync.explorerCanGoUp', this.canGoUp());
+    }
+
     /**
      * Connect to the FTP/SFTP server
      */
@@ -160,7 +228,8 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
             return;
         }
 
-        // Get config for first workspace folder with config
+        // Get config for first workspace folder with config (its active profile)
+        this.config = undefined;
         for (const folder of workspaceFolders) {
             const config = this.configManager.getConfig(folder.uri.fsPath);
             if (config) {
@@ -180,14 +249,9 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
         this.refresh();
 
         try {
-            // Create appropriate client
-            if (this.config.protocol === 'sftp') {
-                this.client = new SftpClientWrapper(this.config);
-            } else {
-                this.client = new FtpClient(this.config);
-            }
-
-            await this.client.connect();
+            // The pool uses stored credentials and asks for missing ones
+            this.pool = new ConnectionPool(this.config);
+            await this.pool.getConnection();
             this.connectionStatus = 'connected';
             this.currentPath = this.config.remotePath;
             Logger.success(`FTP Explorer connected to ${this.config.host}`);
@@ -195,6 +259,8 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
         } catch (error) {
             this.connectionStatus = 'error';
             this.errorMessage = (error as Error).message;
+            await this.pool?.dispose();
+            this.pool = undefined;
             Logger.error(`FTP Explorer connection failed: ${this.errorMessage}`);
             showErrorMessage(`Connection failed: ${this.errorMessage}`);
         }
@@ -206,13 +272,13 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
      * Disconnect from the server
      */
     public async disconnect(): Promise<void> {
-        if (this.client) {
+        if (this.pool) {
             try {
-                await this.client.disconnect();
+                await this.pool.dispose();
             } catch (error) {
                 Logger.error(`Disconnect error: ${(error as Error).message}`);
             }
-            this.client = undefined;
+            this.pool = undefined;
         }
         
         this.connectionStatus = 'disconnected';
@@ -234,12 +300,70 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
      * Navigate up one directory
      */
     public navigateUp(): void {
-        if (this.config && this.currentPath !== this.config.remotePath) {
+        if (this.canGoUp()) {
             this.currentPath = path.posix.dirname(this.currentPath);
             this.refresh();
         }
     }
 
+    /**
+     * Check if the root can move up: to the remotePath of the profile, or to /
+     * after going to a path outside of it
+     */
+    private canGoUp(): boolean {
+        return this.connectionStatus === 'connected'
+            && !!this.config
+            && this.currentPath !== '/'
+            && this.currentPath !== this.config.remotePath;
+    }
+
+    /**
+     * Ask for a remote folder and show the tree from there
+     * Relative paths start at the current root
+     */
+    public async goToPath(): Promise<void> {
+        if (!this.pool) {
+            showWarningMessage('Not connected');
+            return;
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: 'Go to remote folder',
+            value: this.currentPath,
+            placeHolder: '/var/www/html',
+            validateInput: (value) => value.trim() ? undefined : 'Please enter a path'
+        });
+
+        if (!input) {
+            return;
+        }
+
+        const remotePath = path.posix.resolve(this.currentPath, input.trim());
+        try {
+            if (!await this.run(client => client.isDirectory(remotePath), `check ${remotePath}`)) {
+                showErrorMessage(`Not a folder: ${remotePath}`);
+                return;
+            }
+        } catch (error) {
+            showErrorMessage(`Cannot open ${remotePath}: ${(error as Error).message}`);
+            return;
+        }
+
+        this.navigateTo(remotePath);
+    }
+
+    /**
+     * Run an operation on the server
+     * basic-ftp runs one command per connection at a time, so the tree listing folders
+     * while a command runs needs connections of their own from the pool
+     */
+    private run<T>(operation: (client: RemoteClient) => Promise<T>, operationName: string): Promise<T> {
+        if (!this.pool) {
+            return Promise.reject(new Error('Not connected'));
+        }
+        return this.pool.executeWithRetry(operation, operationName);
+    }
+
     /**
      * Get current path
      */
@@ -274,26 +398,11 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
                 )];
             }
 
-            // Connected - show current path header and directory contents
-            const items: vscode.TreeItem[] = [];
-            
-            // Add current path indicator
-            const canGoUp = this.config && this.currentPath !== this.config.remotePath;
-            items.push(new CurrentPathItem(this.currentPath, !!canGoUp));
-            
-            // Add directory contents
-            const directoryItems = await this.listDirectory(this.currentPath);
-            items.push(...directoryItems);
-            
-            return items;
-        }
-
-        // If clicking on CurrentPathItem, do nothing (command handles navigation)
-        if (element instanceof CurrentPathItem) {
-            return [];
+            // Connected - show the contents of the root, the breadcrumb shows where that is
+            return this.listDirectory(this.currentPath);
         }
 
-        // Subdirectory - expand to show contents (don't navigate)
+        // Subdirectory - load its contents when expanded (don't navigate)
         if (element instanceof FtpTreeItem && element.isDirectory) {
             return this.listDirectory(element.remotePath);
         }
@@ -310,12 +419,12 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
             return this.directoryCache.get(remotePath)!;
         }
 
-        if (!this.client) {
+        if (!this.pool) {
             return [];
         }
 
         try {
-            const files: RemoteFileInfo[] = await this.client.listDirectory(remotePath);
+            const files: RemoteFileInfo[] = await this.run(client => client.listDirectory(remotePath), `list ${remotePath}`);
             
             const items: FtpTreeItem[] = files
                 .filter((file: RemoteFileInfo) => file.name !== '.' && file.name !== '..')
@@ -328,19 +437,23 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
                 })
                 .map((file: RemoteFileInfo) => new FtpTreeItem(
                     file.name,
-                    file.type === 'directory'
-                        ? vscode.TreeItemCollapsibleState.Collapsed 
-                        : vscode.TreeItemCollapsibleState.None,
+                    file.type !== 'directory'
+                        ? vscode.TreeItemCollapsibleState.None
+                        : this.expandedPaths.has(path.posix.join(remotePath, file.name))
+                            ? vscode.TreeItemCollapsibleState.Expanded
+                            : vscode.TreeItemCollapsibleState.Collapsed,
                     path.posix.join(remotePath, file.name),
                     file.type === 'directory',
                     file,
-                    this.workspacePath
+                    this.workspacePath,
+                    RemoteFileSystemProvider.toUri(this.config!, path.posix.join(remotePath, file.name))
                 ));
 
             this.directoryCache.set(remotePath, items);
             return items;
         } catch (error) {
             Logger.error(`Failed to list directory ${remotePath}: ${(error as Error).message}`);
+            showErrorMessage(`Cannot list ${remotePath}: ${(error as Error).message}`);
             return [];
         }
     }
@@ -349,7 +462,7 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
      * Download a file or folder from the server
      */
     public async downloadItem(item: FtpTreeItem): Promise<void> {
-        if (!this.client || !this.config || !this.workspacePath) {
+        if (!this.pool || !this.config || !this.workspacePath) {
             showWarningMessage('Not connected');
             return;
         }
@@ -377,7 +490,7 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
                 
                 // Download single file with progress
                 await withFileProgress(`Downloading ${item.label}`, async () => {
-                    await this.client!.downloadFile(item.remotePath, localPath);
+                    await this.run(client => client.downloadFile(item.remotePath, localPath), `download ${item.remotePath}`);
                 });
                 showSuccessMessage(`Downloaded: ${item.label}`);
             }
@@ -394,7 +507,7 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
      * Download a folder recursively with progress tracking
      */
     private async downloadFolderRecursive(remotePath: string, localPath: string, folderName: string): Promise<void> {
-        if (!this.client) {
+        if (!this.pool) {
             return;
         }
 
@@ -402,7 +515,7 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
         const filesToDownload: Array<{ remotePath: string; localPath: string; name: string }> = [];
         
         const collectFiles = async (remoteDir: string, localDir: string): Promise<void> => {
-            const items = await this.client!.listDirectory(remoteDir);
+            const items = await this.run(client => client.listDirectory(remoteDir), `list ${remoteDir}`);
             
             for (const item of items) {
                 const itemRemotePath = item.path;
@@ -447,7 +560,7 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
                             fs.mkdirSync(localDir, { recursive: true });
                         }
                         
-                        await this.client!.downloadFile(file.remotePath, file.localPath);
+                        await this.run(client => client.downloadFile(file.remotePath, file.localPath), `download ${file.remotePath}`);
                         successCount++;
                     } catch (error) {
                         Logger.error(`Failed to download ${file.name}: ${(error as Error).message}`);
@@ -468,7 +581,7 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
      * Delete a file or folder from the server
      */
     public async deleteItem(item: FtpTreeItem): Promise<void> {
-        if (!this.client) {
+        if (!this.pool) {
             showWarningMessage('Not connected');
             return;
         }
@@ -485,26 +598,508 @@ export class FtpExplorerProvider implements vscode.TreeDataProvider<vscode.TreeI
 
         try {
             if (item.isDirectory) {
-                await this.client.deleteDirectory(item.remotePath);
+                await this.run(client => client.deleteDirectory(item.remotePath), `delete ${item.remotePath}`);
             } else {
-                await this.client.deleteFile(item.remotePath);
+                await this.run(client => client.deleteFile(item.remotePath), `delete ${item.remotePath}`);
             }
             
-            // Clear cache for parent directory
-            const parentPath = path.posix.dirname(item.remotePath);
-            this.directoryCache.delete(parentPath);
-            
-            this.refresh();
+            this.refreshPaths(item.remotePath);
             showSuccessMessage(`Deleted: ${item.label}`);
         } catch (error) {
             showErrorMessage(`Delete failed: ${(error as Error).message}`);
         }
     }
 
+    /**
+     * Rename a file or folder on the server
+     */
+    public async renameItem(item: FtpTreeItem): Promise<void> {
+        if (!this.pool) {
+            showWarningMessage('Not connected');
+            return;
+        }
+
+        const oldName = path.posix.basename(item.remotePath);
+        const newName = await vscode.window.showInputBox({
+            prompt: `Rename ${item.isDirectory ? 'folder' : 'file'} on the server`,
+            value: oldName,
+            valueSelection: [0, item.isDirectory ? oldName.length : path.posix.parse(oldName).name.length],
+            validateInput: (value) => this.validateName(value)
+        });
+
+        if (!newName || newName === oldName) {
+            return;
+        }
+
+        const newPath = path.posix.join(path.posix.dirname(item.remotePath), newName);
+        try {
+            if (await this.run(client => client.exists(newPath), `check ${newPath}`)) {
+                showErrorMessage(`"${newName}" already exists`);
+                return;
+            }
+            await this.run(client => client.rename(item.remotePath, newPath), `rename ${item.remotePath}`);
+            this.refreshPaths(item.remotePath, newPath);
+            showSuccessMessage(`Renamed: ${oldName} → ${newName}`);
+        } catch (error) {
+            showErrorMessage(`Rename failed: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Create a folder in the selected folder, or in the current path
+     */
+    public async createFolder(item?: FtpTreeItem): Promise<void> {
+        if (!this.pool) {
+            showWarningMessage('Not connected');
+            return;
+        }
+
+        const parentPath = this.getTargetDirectory(item);
+        const name = await vscode.window.showInputBox({
+            prompt: `New folder in ${parentPath}`,
+            placeHolder: 'Folder name',
+            validateInput: (value) => this.validateName(value)
+        });
+
+        if (!name) {
+            return;
+        }
+
+        const remotePath = path.posix.join(parentPath, name);
+        try {
+            if (await this.run(client => client.exists(remotePath), `check ${remotePath}`)) {
+                showErrorMessage(`"${name}" already exists`);
+                return;
+            }
+            await this.run(client => client.createDirectory(remotePath), `create ${remotePath}`);
+            this.refreshPaths(remotePath);
+            showSuccessMessage(`Created folder: ${name}`);
+        } catch (error) {
+            showErrorMessage(`Create folder failed: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Create an empty file in the selected folder, or in the current path, and open it
+     */
+    public async createFile(item?: FtpTreeItem): Promise<void> {
+        if (!this.pool || !this.config) {
+            showWarningMessage('Not connected');
+            return;
+        }
+
+        const parentPath = this.getTargetDirectory(item);
+        const name = await vscode.window.showInputBox({
+            prompt: `New file in ${parentPath}`,
+            placeHolder: 'File name',
+            validateInput: (value) => this.validateName(value)
+        });
+
+        if (!name) {
+            return;
+        }
+
+        const remotePath = path.posix.join(parentPath, name);
+        // The clients upload files, so start from an empty local one
+        const tempPath = path.join(os.tmpdir(), `ftpsync-new-${Date.now()}-${name}`);
+        try {
+            if (await this.run(client => client.exists(remotePath), `check ${remotePath}`)) {
+                showErrorMessage(`"${name}" already exists`);
+                return;
+            }
+            fs.writeFileSync(tempPath, '');
+            const result = await this.run(client => client.uploadFile(tempPath, remotePath), `upload ${remotePath}`);
+            if (!result.success) {
+                throw result.error || new Error('Upload failed');
+            }
+            this.refreshPaths(remotePath);
+            await vscode.commands.executeCommand('vscode.open', RemoteFileSystemProvider.toUri(this.config, remotePath));
+        } catch (error) {
+            showErrorMessage(`Create file failed: ${(error as Error).message}`);
+        } finally {
+            fs.promises.unlink(tempPath).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Change the permissions of a file or folder, optionally of everything inside a folder
+     */
+    public async changePermissions(item: FtpTreeItem): Promise<void> {
+        if (!this.pool) {
+            showWarningMessage('Not connected');
+            return;
+        }
+
+        const mode = await this.pickPermissions(item);
+        if (mode === undefined) {
+            return;
+        }
+
+        let scope: 'self' | 'all' | 'folders' | 'files' = 'self';
+        if (item.isDirectory) {
+            const choice = await vscode.window.showQuickPick([
+                { label: 'This folder only', scope: 'self' as const },
+                { label: 'Folder and everything inside', scope: 'all' as const },
+                { label: 'Folder and its subfolders', description: 'Files keep their permissions', scope: 'folders' as const },
+                { label: 'Files inside the folder', description: 'Folders keep their permissions', scope: 'files' as const }
+            ], { placeHolder: `Apply ${mode.toString(8).padStart(3, '0')} to` });
+
+            if (!choice) {
+                return;
+            }
+            scope = choice.scope;
+        }
+
+        // Collect everything to change first
+        const targets: string[] = scope === 'files' ? [] : [item.remotePath];
+        const collect = async (remoteDir: string): Promise<void> => {
+            for (const entry of await this.run(client => client.listDirectory(remoteDir), `list ${remoteDir}`)) {
+                if (entry.name === '.' || entry.name === '..' || entry.type === 'link') {
+                    continue;
+                }
+                if (entry.type === 'directory') {
+                    if (scope !== 'files') {
+                        targets.push(entry.path);
+                    }
+                    await collect(entry.path);
+                } else if (scope !== 'folders') {
+                    targets.push(entry.path);
+                }
+            }
+        };
+
+        let failCount = 0;
+        try {
+            if (scope !== 'self') {
+                await withIndeterminateProgress(`Listing ${item.label}`, () => collect(item.remotePath));
+            }
+
+            const apply = async (remotePath: string): Promise<void> => {
+                try {
+                    await this.run(client => client.chmod(remotePath, mode), `chmod ${remotePath}`);
+                } catch {
+                    // Logged by the client
+                    failCount++;
+                }
+            };
+
+            if (targets.length === 1) {
+                await apply(targets[0]);
+            } else {
+                await withFolderProgress(`Changing permissions in ${item.label}`, targets.length, async (reportProgress) => {
+                    for (let i = 0; i < targets.length; i++) {
+                        reportProgress(i + 1, path.posix.basename(targets[i]));
+                        await apply(targets[i]);
+                    }
+                });
+            }
+        } catch (error) {
+            if ((error as Error).message === 'Operation cancelled by user') {
+                showInfoMessage('Change of permissions cancelled');
+            } else {
+                showErrorMessage(`Change permissions failed: ${(error as Error).message}`);
+            }
+            return;
+        } finally {
+            this.refreshPaths(item.remotePath);
+        }
+
+        if (failCount === 0) {
+            showSuccessMessage(targets.length === 1
+                ? `Permissions of ${item.label} set to ${mode.toString(8).padStart(3, '0')}`
+                : `Permissions set to ${mode.toString(8).padStart(3, '0')} for ${targets.length} items`);
+        } else if (failCount === targets.length && targets.length === 1) {
+            showErrorMessage('Change permissions failed - the server may not support it. Check output for details');
+        } else {
+            showWarningMessage(`Changed ${targets.length - failCount} items, ${failCount} failed`);
+        }
+    }
+
+    /**
+     * Let the user tick permission checkboxes, or type an octal mode like 755
+     * @returns The chosen mode, or undefined if cancelled
+     */
+    private pickPermissions(item: FtpTreeItem): Promise<number | undefined> {
+        const current = item.fileInfo?.permissions ?? (item.isDirectory ? 0o755 : 0o644);
+        const picker = vscode.window.createQuickPick<vscode.QuickPickItem & { bit: number }>();
+        picker.canSelectMany = true;
+        picker.items = PERMISSION_BITS.map(({ label, bit }) => ({ label, bit }));
+        picker.selectedItems = picker.items.filter(({ bit }) => current & bit);
+        picker.placeholder = 'Select permissions, or type an octal mode like 755 and press Enter';
+
+        const selectedMode = (): number => picker.selectedItems.reduce((mode, { bit }) => mode | bit, 0);
+        const updateTitle = (): void => {
+            picker.title = `Permissions of ${item.label}: ${formatPermissions(selectedMode())}`;
+        };
+        updateTitle();
+
+        return new Promise((resolve) => {
+            let result: number | undefined;
+            picker.onDidChangeSelection(updateTitle);
+            picker.onDidAccept(() => {
+                const typed = picker.value.trim();
+                if (typed && !/^[0-7]{3}$/.test(typed)) {
+                    picker.title = `"${typed}" is not an octal mode like 644 or 755`;
+                    return;
+                }
+                result = typed ? parseInt(typed, 8) : selectedMode();
+                picker.hide();
+            });
+            picker.onDidHide(() => {
+                picker.dispose();
+                resolve(result);
+            });
+            picker.show();
+        });
+    }
+
+    /**
+     * Copy the remote path of a file or folder to the clipboard
+     */
+    public async copyPath(item: FtpTreeItem): Promise<void> {
+        await vscode.env.clipboard.writeText(item.remotePath);
+        showInfoMessage(`Copied: ${item.remotePath}`);
+    }
+
+    /**
+     * Move files and folders into another folder on the server
+     */
+    public async moveItems(items: FtpTreeItem[], targetPath: string): Promise<void> {
+        if (!this.pool) {
+            showWarningMessage('Not connected');
+            return;
+        }
+
+        // Nothing to do for items already there, and a folder can't go into itself
+        const toMove = items.filter(item =>
+            path.posix.dirname(item.remotePath) !== targetPath &&
+            targetPath !== item.remotePath &&
+            !targetPath.startsWith(`${item.remotePath}/`)
+        );
+
+        let moved = 0;
+        for (const item of toMove) {
+            const newPath = path.posix.join(targetPath, path.posix.basename(item.remotePath));
+            try {
+                if (await this.run(client => client.exists(newPath), `check ${newPath}`)) {
+                    showErrorMessage(`"${item.label}" already exists in ${targetPath}`);
+                    continue;
+                }
+                await this.run(client => client.rename(item.remotePath, newPath), `rename ${item.remotePath}`);
+                this.refreshPaths(item.remotePath, newPath);
+                moved++;
+            } catch (error) {
+                showErrorMessage(`Move of ${item.label} failed: ${(error as Error).message}`);
+            }
+        }
+
+        if (moved > 0) {
+            showSuccessMessage(moved === 1 ? `Moved: ${toMove[0].label}` : `Moved ${moved} items to ${targetPath}`);
+        }
+    }
+
+    /**
+     * Upload local files and folders into a remote folder
+     * Paths ignored by the connected workspace's settings are skipped
+     */
+    public async uploadItems(localPaths: string[], targetPath: string): Promise<void> {
+        if (!this.pool || !this.config) {
+            showWarningMessage('Not connected');
+            return;
+        }
+
+        const ignoreHandler = this.workspacePath
+            ? new IgnoreHandler(this.workspacePath, this.config.ignore, this.config.useGitIgnore)
+            : undefined;
+        await ignoreHandler?.initialize();
+
+        const isIgnored = (localPath: string): boolean => {
+            const relativePath = getRelativePath(this.workspacePath!, localPath);
+            return !!ignoreHandler && !relativePath.startsWith('..') && ignoreHandler.isIgnored(relativePath);
+        };
+
+        // First, collect all folders to create and files to upload
+        const directories: string[] = [];
+        const filesToUpload: Array<{ localPath: string; remotePath: string; name: string }> = [];
+
+        const collectFiles = (localPath: string, remotePath: string): void => {
+            if (isIgnored(localPath)) {
+                return;
+            }
+
+            if (fs.statSync(localPath).isDirectory()) {
+                directories.push(remotePath);
+                for (const entry of fs.readdirSync(localPath)) {
+                    collectFiles(path.join(localPath, entry), path.posix.join(remotePath, entry));
+                }
+            } else {
+                filesToUpload.push({ localPath, remotePath, name: path.basename(localPath) });
+            }
+        };
+
+        try {
+            for (const localPath of localPaths) {
+                collectFiles(localPath, path.posix.join(targetPath, path.basename(localPath)));
+            }
+        } catch (error) {
+            showErrorMessage(`Upload failed: ${(error as Error).message}`);
+            return;
+        }
+
+        if (filesToUpload.length === 0 && directories.length === 0) {
+            showInfoMessage('Nothing to upload');
+            return;
+        }
+
+        let successCount = 0;
+        let failCount = 0;
+
+        const uploadOne = async (file: { localPath: string; remotePath: string; name: string }): Promise<void> => {
+            try {
+                const result = await this.run(client => client.uploadFile(file.localPath, file.remotePath), `upload ${file.remotePath}`);
+                if (!result.success) {
+                    throw result.error || new Error('Upload failed');
+                }
+                successCount++;
+            } catch (error) {
+                Logger.error(`Failed to upload ${file.name}: ${(error as Error).message}`);
+                failCount++;
+            }
+        };
+
+        try {
+            for (const directory of directories) {
+                await this.run(client => client.ensureDirectory(directory), `create ${directory}`);
+            }
+
+            if (directories.length === 0 && filesToUpload.length === 1) {
+                await withFileProgress(`Uploading ${filesToUpload[0].name}`, () => uploadOne(filesToUpload[0]));
+            } else {
+                await withFolderProgress(
+                    `Uploading to ${targetPath}`,
+                    filesToUpload.length,
+                    async (reportProgress) => {
+                        for (let i = 0; i < filesToUpload.length; i++) {
+                            reportProgress(i + 1, filesToUpload[i].name);
+                            await uploadOne(filesToUpload[i]);
+                        }
+                    }
+                );
+            }
+        } catch (error) {
+            if ((error as Error).message === 'Operation cancelled by user') {
+                showInfoMessage('Upload cancelled');
+            } else {
+                showErrorMessage(`Upload failed: ${(error as Error).message}`);
+            }
+        } finally {
+            this.refreshPaths(...localPaths.map(localPath => path.posix.join(targetPath, path.basename(localPath))));
+        }
+
+        if (failCount > 0) {
+            showWarningMessage(`Uploaded ${successCount} files, ${failCount} failed`);
+        } else if (successCount > 0) {
+            showSuccessMessage(successCount === 1 ? `Uploaded: ${filesToUpload[0].name}` : `Uploaded ${successCount} files to ${targetPath}`);
+        }
+    }
+
+    /**
+     * Put the dragged remote items on the data transfer
+     * As ftpsync:// URIs, the Explorer can copy them into the workspace
+     */
+    handleDrag(source: readonly vscode.TreeItem[], dataTransfer: vscode.DataTransfer): void {
+        const items = source.filter((item): item is FtpTreeItem => item instanceof FtpTreeItem);
+        if (items.length === 0) {
+            return;
+        }
+
+        dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(items));
+        const uris = items.filter(item => item.uri).map(item => item.uri!.toString());
+        if (uris.length > 0) {
+            dataTransfer.set(URI_LIST_MIME_TYPE, new vscode.DataTransferItem(uris.join('\r\n')));
+        }
+    }
+
+    /**
+     * Move dropped remote items, or upload dropped local files, into the folder they were dropped on
+     */
+    async handleDrop(target: vscode.TreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const targetPath = target instanceof FtpTreeItem ? this.getTargetDirectory(target) : this.currentPath;
+
+        const treeItems = dataTransfer.get(TREE_MIME_TYPE);
+        if (treeItems) {
+            await this.moveItems(treeItems.value as FtpTreeItem[], targetPath);
+            return;
+        }
+
+        const uriList = await dataTransfer.get(URI_LIST_MIME_TYPE)?.asString();
+        if (!uriList) {
+            return;
+        }
+
+        // Remote files from an ftpsync:// workspace folder can't be uploaded from here
+        const localPaths = uriList
+            .split(/\r?\n/)
+            .filter(line => line && !line.startsWith('#'))
+            .map(line => vscode.Uri.parse(line.trim()))
+            .filter(uri => uri.scheme === 'file')
+            .map(uri => uri.fsPath);
+
+        if (localPaths.length > 0) {
+            await this.uploadItems(localPaths, targetPath);
+        }
+    }
+
+    /**
+     * Get the folder new items go into: the selected folder, the folder of a
+     * selected file, or the current path
+     */
+    private getTargetDirectory(item?: FtpTreeItem): string {
+        if (!item) {
+            return this.currentPath;
+        }
+        return item.isDirectory ? item.remotePath : path.posix.dirname(item.remotePath);
+    }
+
+    /**
+     * Validate a file or folder name entered by the user
+     */
+    private validateName(value: string): string | undefined {
+        const name = value.trim();
+        if (!name) {
+            return 'Please enter a name';
+        }
+        if (name === '.' || name === '..') {
+            return '"." and ".." are not valid names';
+        }
+        if (name.includes('/')) {
+            return 'The name must not contain "/"';
+        }
+        return undefined;
+    }
+
+    /**
+     * Forget cached listings that contain or are below the given paths and update the view
+     * Other folders are shown from the cache
+     */
+    private refreshPaths(...remotePaths: string[]): void {
+        for (const remotePath of remotePaths) {
+            const parentPath = path.posix.dirname(remotePath);
+            for (const cachedPath of [...this.directoryCache.keys()]) {
+                if (cachedPath === parentPath || cachedPath === remotePath || cachedPath.startsWith(`${remotePath}/`)) {
+                    this.directoryCache.delete(cachedPath);
+                }
+            }
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
     /**
      * Dispose resources
      */
     public async dispose(): Promise<void> {
+        this.configChangeListener.dispose();
+        this.treeViewListeners.forEach(listener => listener.dispose());
         await this.disconnect();
         this._onDidChangeTreeData.dispose();
     }
@@ -1,2 +1,4 @@
 export * from './statusBar';
 export * from './ftpExplorer';
+export * from './transferPreview';
+export * from './remoteFileSystem';
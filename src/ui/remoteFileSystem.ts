@@ -0,0 +1,385 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager, ConnectionPool } from '../core';
+import { FtpSyncConfig } from '../types';
+import { RemoteClient, RemoteFileInfo, TransferResult } from '../clients/remoteClient';
+import { Logger, getLocalWorkspaceFolders } from '../utils';
+
+// How long stat and directory listings are reused before asking the server again
+const CACHE_TTL = 10000;
+
+/**
+ * A cached server response
+ */
+interface CacheEntry<T> {
+    value: T;
+    expires: number;
+}
+
+/**
+ * Modification time made up for a file whose server reports none
+ */
+interface FallbackMtime {
+    size: number;
+    mtime: number;
+}
+
+/**
+ * File system for remote files, so they open in normal editor tabs and the
+ * remote path can be added as a workspace folder
+ * URIs look like ftpsync://profile/absolute/remote/path and are resolved to the
+ * profile (or mirror target) of that name in an open workspace folder
+ * Saving an editor writes the file back to the server
+ */
+export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
+    public static readonly scheme = 'ftpsync';
+
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    private pools: Map<string, ConnectionPool> = new Map();
+    private statCache: Map<string, CacheEntry<vscode.FileStat>> = new Map();
+    private directoryCache: Map<string, CacheEntry<[string, vscode.FileType][]>> = new Map();
+    private fallbackMtimes: Map<string, FallbackMtime> = new Map();
+    private configChangeListener: vscode.Disposable;
+
+    constructor(private configManager: ConfigManager) {
+        // Reconnect with the new settings on the next access
+        this.configChangeListener = configManager.onDidChangeConfig(() => this.reset());
+    }
+
+    /**
+     * Build the URI of a remote file
+     */
+    public static toUri(config: FtpSyncConfig, remotePath: string): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: RemoteFileSystemProvider.scheme,
+            authority: RemoteFileSystemProvider.getAuthority(config),
+            path: remotePath.startsWith('/') ? remotePath : `/${remotePath}`
+        });
+    }
+
+    /**
+     * Identify a server in URIs by its profile name
+     */
+    private static getAuthority(config: FtpSyncConfig): string {
+        return config.name || config.host;
+    }
+
+    /**
+     * Changes are only reported for writes made through this provider
+     */
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        // The server root has no entry in a parent listing
+        if (uri.path === '/') {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+
+        const cached = this.getCached(this.statCache, uri);
+        if (cached) {
+            return cached;
+        }
+
+        const info = await this.run(uri, client => client.getFileInfo(uri.path), 'Stat');
+        if (!info) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        const stat = this.toFileStat(uri, info);
+        this.setCached(this.statCache, uri, stat);
+        return stat;
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const cached = this.getCached(this.directoryCache, uri);
+        if (cached) {
+            return cached;
+        }
+
+        const files = (await this.run(uri, client => client.listDirectory(uri.path), 'List'))
+            .filter(file => file.name !== '.' && file.name !== '..');
+
+        // The listing already has everything the explorer will stat next
+        // Files without an mtime are left out, stat() can still get theirs with MDTM
+        for (const file of files.filter(file => file.modifiedTime || file.type === 'directory')) {
+            const fileUri = vscode.Uri.joinPath(uri, file.name);
+            this.setCached(this.statCache, fileUri, this.toFileStat(fileUri, file));
+        }
+
+        const entries = files.map((file): [string, vscode.FileType] => [
+            file.name,
+            file.type === 'directory' ? vscode.FileType.Directory : vscode.FileType.File
+        ]);
+        this.setCached(this.directoryCache, uri, entries);
+        return entries;
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        await this.run(uri, client => client.createDirectory(uri.path), 'Create directory');
+        this.invalidate(uri);
+        this.fireChanged(uri, vscode.FileChangeType.Created);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        // The clients transfer files, so go through a temporary copy
+        const tempPath = this.getTempPath(uri);
+        try {
+            await this.run(uri, async client => RemoteFileSystemProvider.checkTransfer(
+                await client.downloadFile(uri.path, tempPath)
+            ), 'Download');
+            return await fs.promises.readFile(tempPath);
+        } finally {
+            fs.promises.unlink(tempPath).catch(() => undefined);
+        }
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        this.invalidate(uri);
+        const exists = await this.run(uri, client => client.exists(uri.path), 'Stat');
+        if (!exists && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (exists && options.create && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+
+        const tempPath = this.getTempPath(uri);
+        try {
+            await fs.promises.writeFile(tempPath, content);
+            // Checked inside the operation, so a dropped connection is retried like other errors
+            await this.run(uri, async client => RemoteFileSystemProvider.checkTransfer(
+                await client.uploadFile(tempPath, uri.path)
+            ), 'Upload');
+        } finally {
+            fs.promises.unlink(tempPath).catch(() => undefined);
+            this.invalidate(uri);
+        }
+
+        this.fireChanged(uri, exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created);
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        // The entry's type from its parent listing; LIST of a plain file succeeds on many FTP servers
+        const info = await this.run(uri, client => client.getFileInfo(uri.path), 'Stat');
+        if (!info) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        const isDirectory = info.type === 'directory';
+        if (isDirectory && !options.recursive && (await this.readDirectory(uri)).length > 0) {
+            throw vscode.FileSystemError.NoPermissions(`${uri.path} is not empty`);
+        }
+
+        try {
+            await this.run(uri, client => isDirectory
+                ? client.deleteDirectory(uri.path)
+                : client.deleteFile(uri.path), 'Delete');
+        } finally {
+            this.invalidate(uri);
+        }
+        this.fireChanged(uri, vscode.FileChangeType.Deleted);
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        if (oldUri.authority.toLowerCase() !== newUri.authority.toLowerCase()) {
+            throw vscode.FileSystemError.NoPermissions('Cannot move files between servers');
+        }
+
+        this.invalidate(newUri);
+        const target = await this.run(newUri, client => client.getFileInfo(newUri.path), 'Stat');
+        if (target && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+
+        try {
+            await this.run(oldUri, async client => {
+                // Not every server replaces an existing target on rename
+                if (target?.type === 'directory') {
+                    await client.deleteDirectory(newUri.path);
+                } else if (target) {
+                    await client.deleteFile(newUri.path);
+                }
+                await client.rename(oldUri.path, newUri.path);
+            }, 'Rename');
+        } finally {
+            this.invalidate(oldUri);
+            this.invalidate(newUri);
+        }
+
+        this.fireChanged(oldUri, vscode.FileChangeType.Deleted);
+        this.fireChanged(newUri, vscode.FileChangeType.Created);
+    }
+
+    /**
+     * Close all connections and forget cached listings, e.g. after the configuration changed
+     */
+    public async reset(): Promise<void> {
+        const pools = [...this.pools.values()];
+        this.pools.clear();
+        this.statCache.clear();
+        this.directoryCache.clear();
+        this.fallbackMtimes.clear();
+        await Promise.all(pools.map(pool => pool.dispose()));
+    }
+
+    /**
+     * Dispose resources
+     */
+    public async dispose(): Promise<void> {
+        this.configChangeListener.dispose();
+        await this.reset();
+        this._onDidChangeFile.dispose();
+    }
+
+    /**
+     * Run an operation on the server of a URI
+     */
+    private async run<T>(uri: vscode.Uri, operation: (client: RemoteClient) => Promise<T>, operationName: string): Promise<T> {
+        try {
+            return await this.getPool(uri).executeWithRetry(operation, `${operationName} ${uri.path}`);
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError) {
+                throw error;
+            }
+            const message = (error as Error).message;
+            // Editors create missing files on save only after a FileNotFound
+            if (/no such file|not found|550/i.test(message)) {
+                Logger.debug(`${operationName} ${uri.toString()}: ${message}`);
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            Logger.error(`${operationName} ${uri.toString()} failed: ${message}`);
+            throw vscode.FileSystemError.Unavailable(`${operationName} ${uri.path} failed: ${message}`);
+        }
+    }
+
+    /**
+     * Get the connection for the server of a URI
+     */
+    private getPool(uri: vscode.Uri): ConnectionPool {
+        const authority = uri.authority.toLowerCase();
+        let pool = this.pools.get(authority);
+
+        if (!pool) {
+            const config = this.findConfig(authority);
+            if (!config) {
+                throw vscode.FileSystemError.Unavailable(`No FTP Sync profile found for ${uri.authority}`);
+            }
+            pool = new ConnectionPool(config);
+            this.pools.set(authority, pool);
+        }
+
+        return pool;
+    }
+
+    /**
+     * Find the profile or mirror target of an open workspace folder for a URI authority
+     */
+    private findConfig(authority: string): FtpSyncConfig | undefined {
+        for (const folder of getLocalWorkspaceFolders()) {
+            const config = this.configManager.getProfiles(folder.uri.fsPath)
+                .flatMap(profile => this.configManager.getTargetConfigs(profile))
+                .find(candidate => RemoteFileSystemProvider.getAuthority(candidate).toLowerCase() === authority);
+            if (config) {
+                return config;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Convert a remote file info to a file stat
+     */
+    private toFileStat(uri: vscode.Uri, info: RemoteFileInfo): vscode.FileStat {
+        const mtime = info.modifiedTime?.getTime() ?? this.getFallbackMtime(uri, info.size);
+        return {
+            type: info.type === 'directory' ? vscode.FileType.Directory
+                : info.type === 'link' ? vscode.FileType.File | vscode.FileType.SymbolicLink
+                : vscode.FileType.File,
+            ctime: mtime,
+            mtime,
+            size: info.size
+        };
+    }
+
+    /**
+     * Get a stable mtime for a file whose server reports none
+     * It only moves forward when the size changes or the file is written through this provider,
+     * so editors don't take every stat for a newer version on the server
+     */
+    private getFallbackMtime(uri: vscode.Uri, size: number): number {
+        const key = uri.toString();
+        const known = this.fallbackMtimes.get(key);
+        if (known && known.size === size) {
+            return known.mtime;
+        }
+
+        const mtime = Date.now();
+        this.fallbackMtimes.set(key, { size, mtime });
+        return mtime;
+    }
+
+    /**
+     * Get a cached value if it has not expired yet
+     */
+    private getCached<T>(cache: Map<string, CacheEntry<T>>, uri: vscode.Uri): T | undefined {
+        const entry = cache.get(uri.toString());
+        if (entry && entry.expires > Date.now()) {
+            return entry.value;
+        }
+        cache.delete(uri.toString());
+        return undefined;
+    }
+
+    /**
+     * Cache a server response
+     */
+    private setCached<T>(cache: Map<string, CacheEntry<T>>, uri: vscode.Uri, value: T): void {
+        cache.set(uri.toString(), { value, expires: Date.now() + CACHE_TTL });
+    }
+
+    /**
+     * Forget cached results for a path, everything below it and its parent directory
+     */
+    private invalidate(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const parentKey = uri.with({ path: path.posix.dirname(uri.path) }).toString();
+
+        for (const cache of [this.statCache, this.directoryCache, this.fallbackMtimes] as Map<string, unknown>[]) {
+            for (const cachedKey of [...cache.keys()]) {
+                if (cachedKey === key || cachedKey === parentKey || cachedKey.startsWith(`${key}/`)) {
+                    cache.delete(cachedKey);
+                }
+            }
+        }
+    }
+
+    /**
+     * Throw the error of a failed transfer, so run() can retry and map it
+     */
+    private static checkTransfer(result: TransferResult): void {
+        if (!result.success) {
+            throw result.error || new Error('Transfer failed');
+        }
+    }
+
+    /**
+     * Get a unique temporary file for a transfer
+     */
+    private getTempPath(uri: vscode.Uri): string {
+        return path.join(os.tmpdir(), `ftpsync-${crypto.randomBytes(6).toString('hex')}-${path.posix.basename(uri.path)}`);
+    }
+
+    /**
+     * Notify editors and explorers about a change
+     */
+    private fireChanged(uri: vscode.Uri, type: vscode.FileChangeType): void {
+        const parent = uri.with({ path: path.posix.dirname(uri.path) });
+        this._onDidChangeFile.fire([{ type, uri }, { type: vscode.FileChangeType.Changed, uri: parent }]);
+    }
+}
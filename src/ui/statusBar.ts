@@ -7,8 +7,11 @@ export type StatusState = 'idle' | 'watching' | 'syncing' | 'error' | 'unconfigu
  */
 export class StatusBar {
     private statusBarItem: vscode.StatusBarItem;
+    private profileItem: vscode.StatusBarItem;
     private currentState: StatusState = 'unconfigured';
     private syncCount = 0;
+    private profileName: string | undefined;
+    private visible = true;
 
     constructor() {
         // Create status bar item with ID for better tracking
@@ -22,20 +25,33 @@ export class StatusBar {
         this.updateDisplay();
         // Show immediately
         this.statusBarItem.show();
+
+        // Active profile switcher, only shown when there is a choice
+        this.profileItem = vscode.window.createStatusBarItem(
+            'ftpSync.profile',
+            vscode.StatusBarAlignment.Left,
+            99
+        );
+        this.profileItem.name = 'FTP Sync Profile';
+        this.profileItem.command = 'ftpSync.switchProfile';
     }
 
     /**
      * Show the status bar item
      */
     public show(): void {
+        this.visible = true;
         this.statusBarItem.show();
+        this.updateProfileDisplay();
     }
 
     /**
      * Hide the status bar item
      */
     public hide(): void {
+        this.visible = false;
         this.statusBarItem.hide();
+        this.profileItem.hide();
     }
 
     /**
@@ -43,6 +59,30 @@ export class StatusBar {
      */
     public dispose(): void {
         this.statusBarItem.dispose();
+        this.profileItem.dispose();
+    }
+
+    /**
+     * Set the active profile name shown next to the status
+     * Pass undefined to hide the profile switcher
+     */
+    public setProfile(name: string | undefined): void {
+        this.profileName = name;
+        this.updateProfileDisplay();
+    }
+
+    /**
+     * Update the profile switcher item
+     */
+    private updateProfileDisplay(): void {
+        if (!this.profileName || !this.visible) {
+            this.profileItem.hide();
+            return;
+        }
+
+        this.profileItem.text = `$(server) ${this.profileName}`;
+        this.profileItem.tooltip = 'Active FTP Sync profile - Click to switch';
+        this.profileItem.show();
     }
 
     /**
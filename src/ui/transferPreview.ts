@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { SyncAction, SyncActionType, SyncPlan, summarizeSyncPlan } from '../core';
+import { formatFileSize } from '../utils';
+
+const ACTION_LABELS: Record<SyncActionType, string> = {
+    'upload': 'Upload',
+    'download': 'Download',
+    'delete-remote': 'Delete on server',
+    'delete-local': 'Delete locally'
+};
+
+const ACTION_ICONS: Record<SyncActionType, string> = {
+    'upload': '$(cloud-upload)',
+    'download': '$(cloud-download)',
+    'delete-remote': '$(trash)',
+    'delete-local': '$(trash)'
+};
+
+/**
+ * Dry-run preview for folder transfers and syncs
+ * Shows the full plan in a read-only virtual document and lets the user
+ * confirm, cancel or uncheck individual entries before anything is transferred
+ */
+export class TransferPreview implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'ftpsync-preview';
+
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private documents: Map<string, string> = new Map();
+    private previewCounter = 0;
+
+    /**
+     * Provide the content of a preview document
+     */
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.documents.get(uri.toString()) || '';
+    }
+
+    /**
+     * Show the plan and ask the user which actions to run
+     * @param title Title of the transfer, e.g. "Upload src"
+     * @param plan The planned actions
+     * @returns The selected actions, or undefined if the user cancelled
+     */
+    public async confirm(title: string, plan: SyncPlan): Promise<SyncAction[] | undefined> {
+        const uri = vscode.Uri.parse(`${TransferPreview.scheme}:/${encodeURIComponent(title)} (${++this.previewCounter}).md`);
+        this.documents.set(uri.toString(), this.renderReport(title, plan));
+        this._onDidChange.fire(uri);
+
+        const doc = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(doc, { preview: true, viewColumn: vscode.ViewColumn.Beside, preserveFocus: true });
+
+        const totalBytes = plan.actions.reduce((sum, action) => sum + action.size, 0);
+        const items = plan.actions.map(action => ({
+            label: `${ACTION_ICONS[action.type]} ${action.relativePath}`,
+            description: `${ACTION_LABELS[action.type]} · ${formatFileSize(action.size)}`,
+            detail: action.reason,
+            picked: true,
+            action
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            title: `${title}: ${plan.actions.length} files, ${formatFileSize(totalBytes)}`,
+            placeHolder: 'Uncheck entries to exclude them, press Enter to start or Escape to cancel'
+        });
+
+        this.documents.delete(uri.toString());
+
+        if (!selected || selected.length === 0) {
+            return undefined;
+        }
+
+        return selected.map(item => item.action);
+    }
+
+    /**
+     * Render the plan as a markdown report
+     */
+    private renderReport(title: string, plan: SyncPlan): string {
+        const summary = summarizeSyncPlan(plan);
+        const lines: string[] = [`# ${title} (dry run)`, ''];
+
+        lines.push('| Action | Files | Size |');
+        lines.push('| ------ | ----- | ---- |');
+        for (const type of Object.keys(ACTION_LABELS) as SyncActionType[]) {
+            const bytes = plan.actions
+                .filter(action => action.type === type)
+                .reduce((sum, action) => sum + action.size, 0);
+            lines.push(`| ${ACTION_LABELS[type]} | ${summary[type]} | ${formatFileSize(bytes)} |`);
+        }
+        lines.push(`| Unchanged | ${plan.unchanged} | - |`);
+        lines.push(`| Skipped (ignored) | ${plan.skipped.length} | - |`);
+        lines.push(`| Changed on both sides | ${plan.conflicts.length} | - |`);
+        lines.push('');
+
+        for (const type of Object.keys(ACTION_LABELS) as SyncActionType[]) {
+            const actions = plan.actions.filter(action => action.type === type);
+            if (actions.length === 0) {
+                continue;
+            }
+            lines.push(`## ${ACTION_LABELS[type]} (${actions.length})`, '');
+            for (const action of actions) {
+                lines.push(`- \`${action.relativePath}\` (${formatFileSize(action.size)}) - ${action.reason}`);
+            }
+            lines.push('');
+        }
+
+        if (plan.conflicts.length > 0) {
+            lines.push(`## Changed on both sides, not synced (${plan.conflicts.length})`, '');
+            for (const relativePath of plan.conflicts) {
+                lines.push(`- \`${relativePath}\``);
+            }
+            lines.push('');
+        }
+
+        if (plan.skipped.length > 0) {
+            lines.push(`## Skipped by ignore rules (${plan.skipped.length})`, '');
+            for (const relativePath of plan.skipped) {
+                lines.push(`- \`${relativePath}\``);
+            }
+            lines.push('');
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Dispose resources
+     */
+    public dispose(): void {
+        this.documents.clear();
+        this._onDidChange.dispose();
+    }
+}
@@ -2,3 +2,4 @@ export * from './logger';
 export * from './pathUtils';
 export * from './notifications';
 export * from './progress';
+export * from './format';
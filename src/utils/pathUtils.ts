@@ -1,4 +1,5 @@
 import * as path from 'path';
+import * as os from 'os';
 import * as vscode from 'vscode';
 
 /**
@@ -8,6 +9,19 @@ export function normalizePath(filePath: string): string {
     return filePath.replace(/\\/g, '/');
 }
 
+/**
+ * Expand a leading ~ to the user's home directory
+ */
+export function expandHomeDir(filePath: string): string {
+    if (filePath === '~') {
+        return os.homedir();
+    }
+    if (filePath.startsWith('~/') || filePath.startsWith('~\\')) {
+        return path.join(os.homedir(), filePath.slice(2));
+    }
+    return filePath;
+}
+
 /**
  * Join paths and normalize
  */
@@ -52,6 +66,14 @@ export function getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
     return vscode.workspace.workspaceFolders || [];
 }
 
+/**
+ * Get the workspace folders on the local disk
+ * Skips remote folders mounted via ftpsync://, which have no config of their own
+ */
+export function getLocalWorkspaceFolders(): vscode.WorkspaceFolder[] {
+    return getWorkspaceFolders().filter(folder => folder.uri.scheme === 'file');
+}
+
 /**
  * Convert local path to remote path
  */